@@ -4,11 +4,15 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/hooks/useAuth";
+import { OfflineStorageProvider } from "@/hooks/useOfflineStorage";
+import CommandPalette from "@/components/CommandPalette";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Landing from "./pages/Landing";
 import Signup from "./pages/Signup";
 import NotFound from "./pages/NotFound";
+import Graph from "./pages/Graph";
+import ItemDetail from "./pages/ItemDetail";
 
 const queryClient = new QueryClient();
 
@@ -24,26 +28,35 @@ const AppRoutes = () => {
   }
 
   return (
-    <Routes>
-      <Route path="/" element={user ? <Index /> : <Landing />} />
-      <Route path="/auth" element={<Auth />} />
-      <Route path="/signup" element={<Signup />} />
-      <Route path="/dashboard" element={<Index />} />
-      <Route path="*" element={<NotFound />} />
-    </Routes>
+    <>
+      {/* Ctrl/Cmd+K works on every page once signed in */}
+      {user && <CommandPalette />}
+      <Routes>
+        <Route path="/" element={user ? <Index /> : <Landing />} />
+        <Route path="/auth" element={<Auth />} />
+        <Route path="/signup" element={<Signup />} />
+        <Route path="/dashboard" element={<Index />} />
+        <Route path="/graph" element={<Graph />} />
+        <Route path="/notes/:id" element={<ItemDetail itemType="note" />} />
+        <Route path="/commands/:id" element={<ItemDetail itemType="command" />} />
+        <Route path="*" element={<NotFound />} />
+      </Routes>
+    </>
   );
 };
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <AppRoutes />
-        </BrowserRouter>
-      </TooltipProvider>
+      <OfflineStorageProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <AppRoutes />
+          </BrowserRouter>
+        </TooltipProvider>
+      </OfflineStorageProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { CornerDownRight, Terminal, FileText } from 'lucide-react';
+import { LinkedItem, ItemType, RELATION_LABELS } from '@/lib/itemLinks';
+import { referenceSnippet } from '@/lib/wikiLinks';
+
+interface BacklinksProps {
+  itemType: ItemType;
+  title: string;
+  // Items linking here, from groupBacklinks in lists or fetchBacklinks on a detail page
+  sources: LinkedItem[];
+  onItemClick?: (item: LinkedItem) => void;
+}
+
+const Backlinks: React.FC<BacklinksProps> = ({ itemType, title, sources, onItemClick }) => {
+  if (sources.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <CornerDownRight className="h-4 w-4 text-muted-foreground" />
+        <span className="text-sm font-medium text-muted-foreground">
+          Referenced by ({sources.length})
+        </span>
+      </div>
+
+      <div className="grid gap-2">
+        {sources.map((source) => {
+          const snippet = referenceSnippet(source.content ?? source.command ?? '', { title, type: itemType });
+
+          return (
+            <Card
+              key={`${source.type}-${source.id}`}
+              className={onItemClick ? 'bg-muted/30 cursor-pointer hover:bg-muted/60 transition-colors' : 'bg-muted/30'}
+              onClick={() => onItemClick?.(source)}
+            >
+              <CardContent className="p-3">
+                <div className="flex items-start gap-2">
+                  {source.type === 'note' ? (
+                    <FileText className="h-4 w-4 text-blue-500 mt-0.5 flex-shrink-0" />
+                  ) : (
+                    <Terminal className="h-4 w-4 text-green-500 mt-0.5 flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {source.title}
+                      {source.relation && source.relation !== 'see-also' && (
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">
+                          {RELATION_LABELS[source.relation].toLowerCase()} this
+                        </span>
+                      )}
+                    </p>
+                    {snippet && (
+                      <p className="text-xs text-muted-foreground line-clamp-2 mt-1">
+                        {snippet.before}
+                        <mark className="bg-primary/20 text-foreground rounded-sm px-0.5">{snippet.match}</mark>
+                        {snippet.after}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default Backlinks;
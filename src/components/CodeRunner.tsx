@@ -1,36 +1,44 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Play, Loader2, Terminal, Copy, Save, AlertTriangle } from 'lucide-react';
-import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
-import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { EMPTY_INPUTS, ExecutionResult, OutputChunk, RunInputs, RunOptions, STOPPED_EXIT_CODE } from '@/lib/execution';
+import { runBash } from '@/lib/bashRunner';
+import { runPython } from '@/lib/pythonRunner';
+import { runRemotely } from '@/lib/remoteRunner';
+import { SqlResult, runSql } from '@/lib/sqlRunner';
+import { formatArgs, formatEnv, hasRunInputs, parseArgs, parseEnv, validateStdin } from '@/lib/runInputs';
+import SqlResults from '@/components/SqlResults';
+import { Play, Loader2, Terminal, Copy, Save, AlertTriangle, Square } from 'lucide-react';
 
 interface CodeRunnerProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
   initialCode?: string;
   initialLanguage?: string;
+  // Stdin, arguments and environment variables saved with the command
+  initialInputs?: RunInputs;
+  // Saves the inputs with the command being run; without it they only last the session
+  onSaveInputs?: (inputs: RunInputs) => Promise<void>;
+  // Called after each successful run, e.g. to record usage of the command being run
+  onRun?: () => void;
 }
 
-interface ExecutionResult {
-  output: string;
-  error?: string;
-  executionTime: number;
-  exitCode: number;
-}
+// SQL runs also return tables
+type RunResult = ExecutionResult & Partial<Pick<SqlResult, 'resultSets' | 'notices'>>;
 
 const SUPPORTED_LANGUAGES = [
-  { id: 'javascript', name: 'JavaScript (Node.js)', extension: 'js' },
-  { id: 'python', name: 'Python 3', extension: 'py' },
-  { id: 'bash', name: 'Bash', extension: 'sh' },
-  { id: 'sql', name: 'SQL', extension: 'sql' },
+  { id: 'javascript', name: 'JavaScript (Deno)', extension: 'js' },
+  { id: 'python', name: 'Python 3 (Pyodide)', extension: 'py' },
+  { id: 'bash', name: 'Bash (sandboxed)', extension: 'sh' },
+  { id: 'sql', name: 'SQL (PostgreSQL)', extension: 'sql' },
 ];
 
 const DEFAULT_CODE = {
@@ -87,7 +95,7 @@ echo "Current date: $(date)"
 echo "Working directory: $(pwd)"`,
 
   sql: `-- SQL Example (PostgreSQL syntax)
--- Note: This runs against a sandbox database
+-- Note: Each run gets a fresh database that is thrown away afterwards
 
 -- Create a temporary table
 CREATE TEMP TABLE users (
@@ -119,18 +127,96 @@ SELECT
 FROM users;`
 };
 
+// Python, SQL and Bash run in the browser in sandboxed workers; JavaScript
+// runs in the code-executor edge function
+const LOCAL_RUNNERS: Record<string, (code: string, options: RunOptions) => Promise<RunResult>> = {
+  python: runPython,
+  sql: runSql,
+  bash: runBash,
+};
+
+// How each language gets the inputs, shown under the input fields
+const INPUT_HINTS = {
+  javascript: 'Read with prompt() or process.stdin, Deno.args and Deno.env.get("NAME").',
+  python: 'Read with input() or sys.stdin, sys.argv and os.environ.',
+  bash: 'Read with read or cat, "$@" and $NAME.',
+  sql: "Read with COPY ... FROM '/dev/blob', current_setting('run.args')::text[] and current_setting('env.NAME').",
+};
+
+// Runners that can't stream hand back all their output at the end
+const toChunks = (result: ExecutionResult): OutputChunk[] => [
+  ...(result.output ? [{ stream: 'stdout' as const, text: result.output }] : []),
+  ...(result.error ? [{ stream: 'stderr' as const, text: result.error }] : []),
+];
+
 const CodeRunner: React.FC<CodeRunnerProps> = ({
   isOpen,
   onOpenChange,
   initialCode,
-  initialLanguage = 'javascript'
+  initialLanguage = 'javascript',
+  initialInputs = EMPTY_INPUTS,
+  onSaveInputs,
+  onRun,
 }) => {
   const { toast } = useToast();
   const [code, setCode] = useState(initialCode || DEFAULT_CODE[initialLanguage]);
   const [language, setLanguage] = useState(initialLanguage);
-  const [result, setResult] = useState<ExecutionResult | null>(null);
+  // Inputs are edited as text and parsed when the code runs
+  const [stdin, setStdin] = useState(initialInputs.stdin);
+  const [argsText, setArgsText] = useState(formatArgs(initialInputs.args));
+  const [envText, setEnvText] = useState(formatEnv(initialInputs.env));
+  const [savingInputs, setSavingInputs] = useState(false);
+  const [result, setResult] = useState<RunResult | null>(null);
+  // Output of the current or last run, in the order it was written
+  const [chunks, setChunks] = useState<OutputChunk[]>([]);
   const [loading, setLoading] = useState(false);
   const [activeTab, setActiveTab] = useState('editor');
+  const [lineToShow, setLineToShow] = useState<number | null>(null);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+  const outputRef = useRef<HTMLDivElement>(null);
+  const runController = useRef<AbortController | null>(null);
+
+  // The runner stays mounted, so load whatever it was opened with each time,
+  // and don't leave a run going once it is closed
+  useEffect(() => {
+    if (!isOpen) {
+      runController.current?.abort();
+      return;
+    }
+    setCode(initialCode || DEFAULT_CODE[initialLanguage]);
+    setLanguage(initialLanguage);
+    setStdin(initialInputs.stdin);
+    setArgsText(formatArgs(initialInputs.args));
+    setEnvText(formatEnv(initialInputs.env));
+    setResult(null);
+    setChunks([]);
+    setActiveTab('editor');
+  }, [isOpen, initialCode, initialLanguage, initialInputs]);
+
+  // Follow live output as it comes in
+  useEffect(() => {
+    if (loading && outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [chunks, loading]);
+
+  // Select the line an error points at once the editor is showing again
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (activeTab !== 'editor' || lineToShow === null || !editor) return;
+
+    const lines = code.split('\n');
+    const start = lines.slice(0, lineToShow - 1).reduce((offset, line) => offset + line.length + 1, 0);
+    editor.focus();
+    editor.setSelectionRange(start, start + (lines[lineToShow - 1]?.length ?? 0));
+    editor.scrollTop = (lineToShow - 1) * parseFloat(getComputedStyle(editor).lineHeight) - editor.clientHeight / 2;
+    setLineToShow(null);
+  }, [activeTab, lineToShow, code]);
+
+  const handleShowLine = (line: number) => {
+    setLineToShow(line);
+    setActiveTab('editor');
+  };
 
   const handleLanguageChange = (newLanguage: string) => {
     setLanguage(newLanguage);
@@ -138,6 +224,21 @@ const CodeRunner: React.FC<CodeRunnerProps> = ({
       setCode(DEFAULT_CODE[newLanguage] || '');
     }
     setResult(null);
+    setChunks([]);
+  };
+
+  const readInputs = (): RunInputs | null => {
+    try {
+      return { stdin: validateStdin(stdin), args: parseArgs(argsText), env: parseEnv(envText) };
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid input',
+        description: (error as Error).message,
+      });
+      setActiveTab('input');
+      return null;
+    }
   };
 
   const handleRunCode = async () => {
@@ -149,31 +250,48 @@ const CodeRunner: React.FC<CodeRunnerProps> = ({
       });
       return;
     }
+    const inputs = readInputs();
+    if (!inputs) return;
 
+    const controller = new AbortController();
+    runController.current = controller;
     setLoading(true);
+    setResult(null);
+    setChunks([]);
     setActiveTab('output');
 
-    try {
-      const session = await supabase.auth.getSession();
-      if (!session.data.session?.access_token) {
-        throw new Error('Authentication required');
-      }
-
-      const { data, error } = await supabase.functions.invoke('code-executor', {
-        body: {
-          code: code.trim(),
-          language,
-        },
-        headers: {
-          Authorization: `Bearer ${session.data.session.access_token}`,
-        },
-      });
+    let streamed = false;
+    const options: RunOptions = {
+      inputs,
+      signal: controller.signal,
+      onOutput: (chunk) => {
+        streamed = true;
+        // Consecutive writes to the same stream share one span
+        setChunks((previous) => {
+          const last = previous[previous.length - 1];
+          return last?.stream === chunk.stream
+            ? [...previous.slice(0, -1), { ...last, text: last.text + chunk.text }]
+            : [...previous, chunk];
+        });
+      },
+    };
 
-      if (error) throw error;
+    try {
+      // Not trimmed: leading blank lines would shift the reported error lines
+      const runLocally = LOCAL_RUNNERS[language];
+      const data = runLocally ? await runLocally(code, options) : await runRemotely(code, language, options);
 
       setResult(data);
+      if (!streamed) setChunks(toChunks(data));
+
+      if (data.exitCode === STOPPED_EXIT_CODE) {
+        toast({ title: 'Run stopped' });
+        return;
+      }
+      onRun?.();
 
-      if (data.error) {
+      // Programs may write to stderr and still succeed; the exit code decides
+      if (data.exitCode !== 0) {
         toast({
           variant: 'destructive',
           title: 'Execution Error',
@@ -191,17 +309,41 @@ const CodeRunner: React.FC<CodeRunnerProps> = ({
         title: 'Execution failed',
         description: error.message || 'Failed to execute code',
       });
-      setResult({
-        output: '',
-        error: error.message || 'Failed to execute code',
-        executionTime: 0,
-        exitCode: 1,
-      });
+      const message = error.message || 'Failed to execute code';
+      setResult({ output: '', error: message, executionTime: 0, exitCode: 1 });
+      setChunks((previous) => [...previous, { stream: 'stderr', text: message }]);
     } finally {
+      if (runController.current === controller) runController.current = null;
       setLoading(false);
     }
   };
 
+  const handleSaveInputs = async () => {
+    const inputs = readInputs();
+    if (!inputs || !onSaveInputs) return;
+
+    setSavingInputs(true);
+    try {
+      await onSaveInputs(inputs);
+      toast({
+        title: hasRunInputs(inputs) ? 'Inputs saved' : 'Inputs cleared',
+        description: 'They will be used whenever this command is run.',
+      });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error saving inputs',
+        description: (error as Error).message,
+      });
+    } finally {
+      setSavingInputs(false);
+    }
+  };
+
+  const handleStop = () => {
+    runController.current?.abort();
+  };
+
   const handleCopyCode = async () => {
     try {
       await navigator.clipboard.writeText(code);
@@ -242,8 +384,9 @@ const CodeRunner: React.FC<CodeRunnerProps> = ({
         <div className="flex-1 overflow-hidden">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="h-full flex flex-col">
             <div className="flex items-center justify-between gap-4 mb-4">
-              <TabsList className="grid w-full max-w-md grid-cols-2">
+              <TabsList className="grid w-full max-w-md grid-cols-3">
                 <TabsTrigger value="editor">Editor</TabsTrigger>
+                <TabsTrigger value="input">Input</TabsTrigger>
                 <TabsTrigger value="output">Output</TabsTrigger>
               </TabsList>
 
@@ -261,18 +404,17 @@ const CodeRunner: React.FC<CodeRunnerProps> = ({
                   </SelectContent>
                 </Select>
 
-                <Button
-                  onClick={handleRunCode}
-                  disabled={loading}
-                  className="gap-2"
-                >
-                  {loading ? (
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                  ) : (
+                {loading ? (
+                  <Button onClick={handleStop} variant="destructive" className="gap-2">
+                    <Square className="h-4 w-4" />
+                    Stop
+                  </Button>
+                ) : (
+                  <Button onClick={handleRunCode} className="gap-2">
                     <Play className="h-4 w-4" />
-                  )}
-                  Run
-                </Button>
+                    Run
+                  </Button>
+                )}
               </div>
             </div>
 
@@ -294,6 +436,7 @@ const CodeRunner: React.FC<CodeRunnerProps> = ({
                   </CardHeader>
                   <CardContent className="h-[calc(100%-4rem)] p-0">
                     <Textarea
+                      ref={editorRef}
                       value={code}
                       onChange={(e) => setCode(e.target.value)}
                       className="h-full resize-none border-0 font-mono text-sm"
@@ -303,11 +446,66 @@ const CodeRunner: React.FC<CodeRunnerProps> = ({
                 </Card>
               </TabsContent>
 
+              <TabsContent value="input" className="h-full mt-0">
+                <Card className="h-full">
+                  <CardHeader className="pb-2">
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-sm">Program Input</CardTitle>
+                      {onSaveInputs && (
+                        <Button variant="ghost" size="sm" className="gap-2" onClick={handleSaveInputs} disabled={savingInputs}>
+                          {savingInputs ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                          Save with command
+                        </Button>
+                      )}
+                    </div>
+                  </CardHeader>
+                  <CardContent className="h-[calc(100%-4rem)] overflow-auto space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="run-args">Arguments</Label>
+                      <Input
+                        id="run-args"
+                        value={argsText}
+                        onChange={(e) => setArgsText(e.target.value)}
+                        className="font-mono text-sm"
+                        placeholder='--verbose "two words"'
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="run-stdin">Standard input</Label>
+                      <Textarea
+                        id="run-stdin"
+                        value={stdin}
+                        onChange={(e) => setStdin(e.target.value)}
+                        className="min-h-[120px] font-mono text-sm"
+                        placeholder="Text the program reads from stdin"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="run-env">Environment variables</Label>
+                      <Textarea
+                        id="run-env"
+                        value={envText}
+                        onChange={(e) => setEnvText(e.target.value)}
+                        className="min-h-[80px] font-mono text-sm"
+                        placeholder={'API_URL=https://example.com\nDEBUG=1'}
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">{INPUT_HINTS[language]}</p>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
               <TabsContent value="output" className="h-full mt-0">
                 <Card className="h-full">
                   <CardHeader className="pb-2">
                     <div className="flex items-center justify-between">
                       <CardTitle className="text-sm">Execution Output</CardTitle>
+                      {loading && (
+                        <Badge variant="outline" className="gap-1">
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                          Running
+                        </Badge>
+                      )}
                       {result && (
                         <div className="flex items-center gap-2">
                           <Badge variant={result.exitCode === 0 ? 'default' : 'destructive'}>
@@ -316,51 +514,55 @@ const CodeRunner: React.FC<CodeRunnerProps> = ({
                           <Badge variant="outline">
                             {result.executionTime}ms
                           </Badge>
+                          {result.errorLine && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-6 px-2 text-xs"
+                              onClick={() => handleShowLine(result.errorLine)}
+                            >
+                              Go to line {result.errorLine}
+                            </Button>
+                          )}
                         </div>
                       )}
                     </div>
                   </CardHeader>
-                  <CardContent className="h-[calc(100%-4rem)] overflow-auto">
-                    {loading ? (
+                  <CardContent ref={outputRef} className="h-[calc(100%-4rem)] overflow-auto">
+                    {loading && chunks.length === 0 ? (
                       <div className="flex items-center justify-center h-full">
                         <div className="text-center">
                           <Loader2 className="h-8 w-8 animate-spin mx-auto mb-2" />
-                          <p className="text-sm text-muted-foreground">Executing code...</p>
+                          <p className="text-sm text-muted-foreground">
+                            {LOCAL_RUNNERS[language] ? 'Running in your browser...' : 'Executing code...'}
+                          </p>
                         </div>
                       </div>
-                    ) : result ? (
+                    ) : result || chunks.length > 0 ? (
                       <div className="space-y-4">
-                        {result.error && (
-                          <div className="p-3 border border-destructive/20 bg-destructive/5 rounded-lg">
-                            <div className="flex items-center gap-2 mb-2">
-                              <AlertTriangle className="h-4 w-4 text-destructive" />
-                              <span className="text-sm font-medium text-destructive">Error</span>
-                            </div>
-                            <pre className="text-sm whitespace-pre-wrap font-mono text-destructive">
-                              {result.error}
-                            </pre>
-                          </div>
+                        {chunks.length > 0 && (
+                          // stdout and stderr interleaved as written, stderr in red
+                          <pre className="p-3 rounded-md bg-[#282c34] text-[#abb2bf] font-mono text-[13px] leading-[1.4] whitespace-pre-wrap break-words">
+                            {chunks.map((chunk, index) => (
+                              <span key={index} className={chunk.stream === 'stderr' ? 'text-red-400' : undefined}>
+                                {chunk.text}
+                              </span>
+                            ))}
+                          </pre>
                         )}
-                        
-                        {result.output && (
-                          <div>
-                            <h4 className="text-sm font-medium mb-2">Output:</h4>
-                            <SyntaxHighlighter
-                              language="text"
-                              style={oneDark}
-                              customStyle={{
-                                margin: 0,
-                                padding: '12px',
-                                fontSize: '13px',
-                                lineHeight: '1.4',
-                              }}
-                            >
-                              {result.output}
-                            </SyntaxHighlighter>
+
+                        {result?.stopReason && (
+                          <div className="flex items-center gap-2 text-sm text-destructive">
+                            <AlertTriangle className="h-4 w-4" />
+                            {result.stopReason}
                           </div>
                         )}
-                        
-                        {!result.output && !result.error && (
+
+                        {result?.resultSets && (
+                          <SqlResults resultSets={result.resultSets} notices={result.notices ?? []} />
+                        )}
+
+                        {result && chunks.length === 0 && !result.stopReason && !result.resultSets?.length && (
                           <div className="text-center py-8 text-muted-foreground">
                             <Terminal className="h-8 w-8 mx-auto mb-2 opacity-50" />
                             <p>No output generated</p>
@@ -0,0 +1,302 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ChevronDown, ChevronRight, Folder, FolderOpen, Inbox, Layers, MoreHorizontal, Plus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  CollectionFilter,
+  CollectionNode,
+  COLLECTION_DRAG_TYPE,
+  DraggedItem,
+  ITEM_DRAG_TYPE,
+} from '@/lib/collections';
+
+interface CollectionSidebarProps {
+  tree: CollectionNode[];
+  totalCount: number;
+  unfiledCount: number;
+  filter: CollectionFilter;
+  onFilterChange: (filter: CollectionFilter) => void;
+  onCreate: (name: string, parentId: string | null) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  // collectionId is null for "Unfiled"
+  onMoveItem: (item: DraggedItem, collectionId: string | null) => void;
+  onMoveCollection: (id: string, parentId: string | null) => void;
+}
+
+type Editing = { mode: 'create'; parentId: string | null } | { mode: 'rename'; id: string; name: string };
+
+const isDraggable = (event: React.DragEvent) =>
+  event.dataTransfer.types.includes(ITEM_DRAG_TYPE) || event.dataTransfer.types.includes(COLLECTION_DRAG_TYPE);
+
+const CollectionSidebar: React.FC<CollectionSidebarProps> = ({
+  tree,
+  totalCount,
+  unfiledCount,
+  filter,
+  onFilterChange,
+  onCreate,
+  onRename,
+  onDelete,
+  onMoveItem,
+  onMoveCollection,
+}) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<CollectionNode | null>(null);
+  // Enter and Escape end the edit and unmount the input, which can blur it
+  // too; this keeps the edit from being committed a second time
+  const editFinished = useRef(false);
+
+  const toggle = (id: string) =>
+    setCollapsed(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const startCreate = (parentId: string | null) => {
+    editFinished.current = false;
+    setEditing({ mode: 'create', parentId });
+    setDraftName('');
+    if (parentId) setCollapsed(current => new Set([...current].filter(id => id !== parentId)));
+  };
+
+  const startRename = (node: CollectionNode) => {
+    editFinished.current = false;
+    setEditing({ mode: 'rename', id: node.collection.id, name: node.collection.name });
+    setDraftName(node.collection.name);
+  };
+
+  const cancelEdit = () => {
+    editFinished.current = true;
+    setEditing(null);
+  };
+
+  const commitEdit = () => {
+    if (editFinished.current) return;
+    editFinished.current = true;
+    const name = draftName.trim();
+    if (editing && name) {
+      if (editing.mode === 'create') onCreate(name, editing.parentId);
+      else if (name !== editing.name) onRename(editing.id, name);
+    }
+    setEditing(null);
+  };
+
+  // Drop targets: a collection id, 'unfiled', or 'root' (collections only)
+  const dropHandlers = (target: string) => ({
+    onDragOver: (event: React.DragEvent) => {
+      if (!isDraggable(event)) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'move';
+      setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget(current => (current === target ? null : current)),
+    onDrop: (event: React.DragEvent) => {
+      event.preventDefault();
+      setDropTarget(null);
+      const collectionId = target === 'unfiled' || target === 'root' ? null : target;
+
+      const item = event.dataTransfer.getData(ITEM_DRAG_TYPE);
+      if (item) {
+        onMoveItem(JSON.parse(item), collectionId);
+        return;
+      }
+
+      const dragged = event.dataTransfer.getData(COLLECTION_DRAG_TYPE);
+      if (dragged && dragged !== collectionId) onMoveCollection(dragged, collectionId);
+    },
+  });
+
+  const rowClass = (active: boolean, target: string) =>
+    cn(
+      'group flex items-center gap-1 rounded-md px-2 py-1.5 text-sm cursor-pointer transition-colors',
+      active ? 'bg-accent text-accent-foreground font-medium' : 'hover:bg-muted',
+      dropTarget === target && 'ring-2 ring-primary bg-primary/10'
+    );
+
+  const renderNameInput = (depth: number) => (
+    <div style={{ paddingLeft: depth * 12 + 8 }} className="py-1 pr-2">
+      <Input
+        autoFocus
+        value={draftName}
+        onChange={(event) => setDraftName(event.target.value)}
+        onBlur={commitEdit}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') commitEdit();
+          if (event.key === 'Escape') cancelEdit();
+        }}
+        placeholder="Collection name"
+        maxLength={100}
+        className="h-7 text-sm"
+        aria-label="Collection name"
+      />
+    </div>
+  );
+
+  const renderNode = (node: CollectionNode, depth: number): React.ReactNode => {
+    const { collection, children } = node;
+    const isOpen = !collapsed.has(collection.id);
+    const active = filter.kind === 'collection' && filter.id === collection.id;
+
+    if (editing?.mode === 'rename' && editing.id === collection.id) {
+      return <div key={collection.id}>{renderNameInput(depth)}</div>;
+    }
+
+    return (
+      <div key={collection.id}>
+        <div
+          className={rowClass(active, collection.id)}
+          style={{ paddingLeft: depth * 12 + 8 }}
+          onClick={() => onFilterChange({ kind: 'collection', id: collection.id })}
+          draggable
+          onDragStart={(event) => {
+            event.dataTransfer.setData(COLLECTION_DRAG_TYPE, collection.id);
+            event.dataTransfer.effectAllowed = 'move';
+          }}
+          {...dropHandlers(collection.id)}
+        >
+          <button
+            type="button"
+            className={cn('h-4 w-4 shrink-0 text-muted-foreground', children.length === 0 && 'invisible')}
+            onClick={(event) => {
+              event.stopPropagation();
+              toggle(collection.id);
+            }}
+            aria-label={isOpen ? 'Collapse' : 'Expand'}
+          >
+            {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          </button>
+          {active ? <FolderOpen className="h-4 w-4 shrink-0" /> : <Folder className="h-4 w-4 shrink-0" />}
+          <span className="flex-1 truncate">{collection.name}</span>
+          <span className="text-xs text-muted-foreground" title={`${node.count} directly in this collection`}>
+            {node.total}
+          </span>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild onClick={(event) => event.stopPropagation()}>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                aria-label={`Actions for ${collection.name}`}
+              >
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            {/* Keep focus on the name input these items open rather than the trigger */}
+            <DropdownMenuContent
+              align="end"
+              onClick={(event) => event.stopPropagation()}
+              onCloseAutoFocus={(event) => event.preventDefault()}
+            >
+              <DropdownMenuItem onSelect={() => startCreate(collection.id)}>New subcollection</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => startRename(node)}>Rename</DropdownMenuItem>
+              {collection.parent_id && (
+                <DropdownMenuItem onSelect={() => onMoveCollection(collection.id, null)}>Move to top level</DropdownMenuItem>
+              )}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem className="text-destructive" onSelect={() => setPendingDelete(node)}>
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        {isOpen && children.map(child => renderNode(child, depth + 1))}
+        {editing?.mode === 'create' && editing.parentId === collection.id && renderNameInput(depth + 1)}
+      </div>
+    );
+  };
+
+  return (
+    <nav className="space-y-1" aria-label="Collections">
+      <div className={rowClass(filter.kind === 'all', 'all')} onClick={() => onFilterChange({ kind: 'all' })}>
+        <Layers className="h-4 w-4 shrink-0" />
+        <span className="flex-1">All items</span>
+        <span className="text-xs text-muted-foreground">{totalCount}</span>
+      </div>
+      <div
+        className={rowClass(filter.kind === 'unfiled', 'unfiled')}
+        onClick={() => onFilterChange({ kind: 'unfiled' })}
+        {...dropHandlers('unfiled')}
+      >
+        <Inbox className="h-4 w-4 shrink-0" />
+        <span className="flex-1">Unfiled</span>
+        <span className="text-xs text-muted-foreground">{unfiledCount}</span>
+      </div>
+
+      <div
+        className={cn(
+          'flex items-center justify-between rounded-md pt-4 pb-1 pl-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground',
+          dropTarget === 'root' && 'ring-2 ring-primary bg-primary/10'
+        )}
+        {...dropHandlers('root')}
+      >
+        Collections
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => startCreate(null)}
+          aria-label="New collection"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {tree.map(node => renderNode(node, 0))}
+      {editing?.mode === 'create' && editing.parentId === null && renderNameInput(0)}
+      {tree.length === 0 && editing?.mode !== 'create' && (
+        <p className="px-2 py-1 text-xs text-muted-foreground">
+          Create a collection, then drag commands and notes onto it.
+        </p>
+      )}
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{pendingDelete?.collection.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.children.length ? 'Its subcollections are deleted too. ' : ''}
+              The {pendingDelete?.total ?? 0} item{pendingDelete?.total === 1 ? '' : 's'} inside will be kept and moved to Unfiled.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) onDelete(pendingDelete.collection.id);
+                setPendingDelete(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </nav>
+  );
+};
+
+export default CollectionSidebar;
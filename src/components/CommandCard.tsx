@@ -1,12 +1,24 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Copy, Edit, Trash2, Check } from 'lucide-react';
+import { Copy, Edit, Trash2, Check, History, Archive, Play } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useCommandUsage } from '@/hooks/useCommandUsage';
 import { useToast } from '@/hooks/use-toast';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import LinkedItems from './LinkedItems';
+import Backlinks from './Backlinks';
+import VersionHistory from './VersionHistory';
+import TemplateFillDialog from './TemplateFillDialog';
+import { RiskSummary } from './RiskFindings';
+import { detectLanguage } from '@/lib/language';
+import { fillTemplate, hasPlaceholders } from '@/lib/commandTemplate';
+import { parseStoredFindings } from '@/lib/commandRisk';
+import { usageCount, CommandUsage, UsageEvent } from '@/lib/commandUsage';
+import { itemPath, ItemType, LinkedItem } from '@/lib/itemLinks';
 
 interface Command {
   id: string;
@@ -14,6 +26,7 @@ interface Command {
   command: string;
   description?: string;
   tags?: string[];
+  risk_findings?: unknown;
   created_at: string;
   updated_at: string;
 }
@@ -22,56 +35,49 @@ interface CommandCardProps {
   command: Command;
   onEdit: (command: Command) => void;
   onDelete: (id: string) => void;
+  onRestored?: () => void;
+  onOpenItem?: (id: string, type: ItemType) => void;
+  usage?: CommandUsage;
+  // Called after a copy has been recorded, so the list can update its totals
+  onUsed?: (event: UsageEvent) => void;
+  onRun?: (command: Command) => void;
+  // Items linking to this command, worked out once for the whole list
+  backlinks?: LinkedItem[];
 }
 
-// Helper function to detect programming language
-const detectLanguage = (command: string): string => {
-  const cmd = command.toLowerCase().trim();
-  
-  // Shell/Bash commands
-  if (cmd.startsWith('docker') || cmd.startsWith('kubectl') || cmd.startsWith('git') ||
-      cmd.startsWith('npm') || cmd.startsWith('yarn') || cmd.startsWith('pip') ||
-      cmd.startsWith('curl') || cmd.startsWith('wget') || cmd.startsWith('ssh') ||
-      cmd.startsWith('rsync') || cmd.startsWith('grep') || cmd.startsWith('awk') ||
-      cmd.startsWith('sed') || cmd.startsWith('find') || cmd.startsWith('ls') ||
-      cmd.startsWith('cd ') || cmd.startsWith('mkdir') || cmd.startsWith('rm ') ||
-      cmd.startsWith('cp ') || cmd.startsWith('mv ') || cmd.startsWith('chmod') ||
-      cmd.startsWith('chown') || cmd.startsWith('ps ') || cmd.startsWith('kill ') ||
-      cmd.startsWith('systemctl') || cmd.startsWith('service ') || cmd.startsWith('crontab')) {
-    return 'bash';
-  }
-  
-  // SQL
-  if (cmd.startsWith('select') || cmd.startsWith('insert') || cmd.startsWith('update') ||
-      cmd.startsWith('delete') || cmd.startsWith('create') || cmd.startsWith('alter') ||
-      cmd.startsWith('drop') || cmd.includes('from ') || cmd.includes('where ')) {
-    return 'sql';
-  }
-  
-  // Python
-  if (cmd.startsWith('python') || cmd.startsWith('pip') || cmd.includes('import ') ||
-      cmd.includes('def ') || cmd.includes('class ') || cmd.includes('print(')) {
-    return 'python';
-  }
-  
-  // JavaScript/Node
-  if (cmd.startsWith('node') || cmd.startsWith('npx') || cmd.includes('console.log') ||
-      cmd.includes('function') || cmd.includes('const ') || cmd.includes('let ')) {
-    return 'javascript';
-  }
-  
-  // Default to bash for most CLI commands
-  return 'bash';
-};
-
-const CommandCard: React.FC<CommandCardProps> = ({ command, onEdit, onDelete }) => {
+const CommandCard: React.FC<CommandCardProps> = ({
+  command,
+  onEdit,
+  onDelete,
+  onRestored,
+  onOpenItem,
+  usage,
+  onUsed,
+  onRun,
+  backlinks = [],
+}) => {
   const { toast } = useToast();
+  const trackUsage = useCommandUsage();
   const [copied, setCopied] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [templateOpen, setTemplateOpen] = useState(false);
   const language = detectLanguage(command.command);
+  const findings = parseStoredFindings(command.risk_findings);
+
+  // Newer commands linked to this one with 'replaces'; any makes it deprecated
+  const replacedBy = backlinks.filter((item) => item.type === 'command' && item.relation === 'replaces');
 
-  const handleCopy = async () => {
+  const handleCopy = () => {
+    // Templates go through the fill-in form; plain commands copy straight away
+    if (hasPlaceholders(command.command)) setTemplateOpen(true);
+    else copyToClipboard(fillTemplate(command.command, {}));
+  };
+
+  const copyToClipboard = async (text: string) => {
     try {
-      await navigator.clipboard.writeText(command.command);
+      await navigator.clipboard.writeText(text);
+      trackUsage(command.id, 'copy');
+      onUsed?.('copy');
       setCopied(true);
       toast({
         title: "Copied to clipboard",
@@ -88,10 +94,22 @@ const CommandCard: React.FC<CommandCardProps> = ({ command, onEdit, onDelete })
   };
 
   return (
-    <Card className="animate-fade-in hover:shadow-md transition-all duration-300">
+    <Card className={`animate-fade-in hover:shadow-md transition-all duration-300${replacedBy.length > 0 ? ' border-dashed' : ''}`}>
       <CardHeader className="pb-2">
         <div className="flex items-start justify-between">
-          <CardTitle className="text-lg font-semibold">{command.title}</CardTitle>
+          <div className="flex items-center gap-2 min-w-0">
+            <CardTitle className={`text-lg font-semibold${replacedBy.length > 0 ? ' text-muted-foreground line-through' : ''}`}>
+              <Link to={itemPath('command', command.id)} className="hover:underline">
+                {command.title}
+              </Link>
+            </CardTitle>
+            {replacedBy.length > 0 && (
+              <Badge variant="outline" className="gap-1 text-xs text-amber-600 border-amber-500/50">
+                <Archive className="h-3 w-3" />
+                Deprecated
+              </Badge>
+            )}
+          </div>
           <div className="flex gap-1">
             <Button
               variant="ghost"
@@ -105,6 +123,25 @@ const CommandCard: React.FC<CommandCardProps> = ({ command, onEdit, onDelete })
                 <Copy className="h-4 w-4" />
               )}
             </Button>
+            {onRun && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onRun(command)}
+                className="h-8 w-8 p-0"
+                title="Run in code runner"
+              >
+                <Play className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setHistoryOpen(true)}
+              className="h-8 w-8 p-0"
+            >
+              <History className="h-4 w-4" />
+            </Button>
             <Button
               variant="ghost"
               size="sm"
@@ -125,6 +162,28 @@ const CommandCard: React.FC<CommandCardProps> = ({ command, onEdit, onDelete })
         </div>
       </CardHeader>
       <CardContent className="space-y-3">
+        {replacedBy.length > 0 && (
+          <p className="text-sm text-amber-700 dark:text-amber-400">
+            Replaced by{' '}
+            {replacedBy.map((item, index) => (
+              <React.Fragment key={item.id}>
+                {index > 0 && ', '}
+                {onOpenItem ? (
+                  <button
+                    type="button"
+                    className="font-medium underline underline-offset-2"
+                    onClick={() => onOpenItem(item.id, item.type)}
+                  >
+                    {item.title}
+                  </button>
+                ) : (
+                  <span className="font-medium">{item.title}</span>
+                )}
+              </React.Fragment>
+            ))}
+          </p>
+        )}
+
         <div className="rounded-md overflow-hidden">
           <SyntaxHighlighter
             language={language}
@@ -145,6 +204,12 @@ const CommandCard: React.FC<CommandCardProps> = ({ command, onEdit, onDelete })
         {command.description && (
           <p className="text-sm text-muted-foreground">{command.description}</p>
         )}
+
+        {findings.length > 0 && (
+          <div>
+            <RiskSummary findings={findings} />
+          </div>
+        )}
         
         {command.tags && command.tags.length > 0 && (
           <div className="flex flex-wrap gap-1">
@@ -156,12 +221,47 @@ const CommandCard: React.FC<CommandCardProps> = ({ command, onEdit, onDelete })
           </div>
         )}
         
-        <LinkedItems itemId={command.id} itemType="command" />
+        <LinkedItems
+          itemId={command.id}
+          itemType="command"
+          onItemClick={onOpenItem && ((item) => onOpenItem(item.id, item.type))}
+        />
+        <Backlinks
+          itemType="command"
+          title={command.title}
+          sources={backlinks}
+          onItemClick={onOpenItem && ((item) => onOpenItem(item.id, item.type))}
+        />
         
-        <div className="text-xs text-muted-foreground">
-          Created: {new Date(command.created_at).toLocaleDateString()}
+        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>Created: {new Date(command.created_at).toLocaleDateString()}</span>
+          {usageCount(usage) > 0 && (
+            <span
+              title={`Copied ${usage!.copy_count} · run ${usage!.run_count}${
+                usage!.last_used_at ? ` · last used ${new Date(usage!.last_used_at).toLocaleString()}` : ''
+              }`}
+            >
+              Used {usageCount(usage) === 1 ? 'once' : `${usageCount(usage)} times`}
+              {usage!.last_used_at && `, ${formatDistanceToNow(new Date(usage!.last_used_at), { addSuffix: true })}`}
+            </span>
+          )}
         </div>
       </CardContent>
+
+      <VersionHistory
+        isOpen={historyOpen}
+        onOpenChange={setHistoryOpen}
+        itemType="command"
+        current={{ ...command, content: command.command }}
+        onRestored={onRestored}
+      />
+
+      <TemplateFillDialog
+        isOpen={templateOpen}
+        onOpenChange={setTemplateOpen}
+        command={command}
+        onCopy={copyToClipboard}
+      />
     </Card>
   );
 };
@@ -1,9 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { supabase } from '@/integrations/supabase/client';
@@ -11,6 +12,10 @@ import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { useOfflineStorage } from '@/hooks/useOfflineStorage';
 import { sanitizeText, sanitizeCommand, validateTags } from '@/lib/validation';
+import { analyzeCommandRisks, parseStoredFindings, RiskFinding } from '@/lib/commandRisk';
+import RiskFindings from './RiskFindings';
+import LinkSelector from './LinkSelector';
+import { useItemLinks } from '@/hooks/useItemLinks';
 import { Loader2, Sparkles, AlertTriangle, CheckCircle, X } from 'lucide-react';
 
 interface Command {
@@ -19,6 +24,7 @@ interface Command {
   command: string;
   description?: string;
   tags?: string[];
+  risk_findings?: unknown;
   created_at: string;
   updated_at: string;
 }
@@ -27,9 +33,18 @@ interface CommandFormProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
   command?: Command | null;
+  // Collection a new command is filed into; edits keep their collection
+  collectionId?: string | null;
   onSuccess: () => void;
 }
 
+// Only these need an explicit acknowledgement before saving
+const needsAcknowledgement = (finding: RiskFinding) => finding.severity === 'high' || finding.severity === 'critical';
+
+// Identifies a set of warnings independently of where they sit in the command
+const findingsKey = (findings: RiskFinding[]) =>
+  findings.filter(needsAcknowledgement).map(finding => `${finding.rule}:${finding.match}`).join('\n');
+
 interface AIAnalysis {
   suggestedTags: string[];
   category: string;
@@ -38,7 +53,7 @@ interface AIAnalysis {
   description?: string;
 }
 
-const CommandForm: React.FC<CommandFormProps> = ({ isOpen, onOpenChange, command, onSuccess }) => {
+const CommandForm: React.FC<CommandFormProps> = ({ isOpen, onOpenChange, command, collectionId = null, onSuccess }) => {
   const { user } = useAuth();
   const { toast } = useToast();
   const { isOnline, addPendingAction } = useOfflineStorage();
@@ -52,6 +67,11 @@ const CommandForm: React.FC<CommandFormProps> = ({ isOpen, onOpenChange, command
   const [aiAnalysis, setAiAnalysis] = useState<AIAnalysis | null>(null);
   const [aiLoading, setAiLoading] = useState(false);
   const [showAiSuggestions, setShowAiSuggestions] = useState(false);
+  const [acknowledgedKey, setAcknowledgedKey] = useState('');
+  const { selectedLinks, setSelectedLinks, linksLoaded, loadLinks, resetLinks, saveLinks } = useItemLinks('command');
+
+  const findings = useMemo(() => analyzeCommandRisks(sanitizeCommand(formData.command)), [formData.command]);
+  const unacknowledged = findings.some(needsAcknowledgement) && acknowledgedKey !== findingsKey(findings);
 
   useEffect(() => {
     if (command) {
@@ -61,7 +81,12 @@ const CommandForm: React.FC<CommandFormProps> = ({ isOpen, onOpenChange, command
         description: command.description || '',
         tags: command.tags ? command.tags.join(', ') : '',
       });
+      // Warnings accepted when the command was last saved stay accepted
+      setAcknowledgedKey(findingsKey(parseStoredFindings(command.risk_findings)));
+      loadLinks(command.id);
     } else {
+      setAcknowledgedKey('');
+      resetLinks();
       setFormData({
         title: '',
         command: '',
@@ -129,6 +154,10 @@ const CommandForm: React.FC<CommandFormProps> = ({ isOpen, onOpenChange, command
         throw new Error('Title and command are required');
       }
 
+      if (unacknowledged) {
+        throw new Error('Review and acknowledge the high-risk warnings before saving');
+      }
+
       const sanitizedTitle = sanitizeText(formData.title);
       const sanitizedCommand = sanitizeCommand(formData.command);
       const sanitizedDescription = sanitizeText(formData.description);
@@ -145,9 +174,12 @@ const CommandForm: React.FC<CommandFormProps> = ({ isOpen, onOpenChange, command
         command: sanitizedCommand,
         description: sanitizedDescription || null,
         tags: tagsArray.length > 0 ? tagsArray : null,
+        risk_findings: findings,
         user_id: user.id,
       };
 
+      let commandId: string;
+
       if (isOnline) {
         if (command) {
           // Update existing command
@@ -157,6 +189,7 @@ const CommandForm: React.FC<CommandFormProps> = ({ isOpen, onOpenChange, command
             .eq('id', command.id);
 
           if (error) throw error;
+          commandId = command.id;
           
           toast({
             title: "Command updated",
@@ -164,11 +197,14 @@ const CommandForm: React.FC<CommandFormProps> = ({ isOpen, onOpenChange, command
           });
         } else {
           // Create new command
-          const { error } = await supabase
+          const { data, error } = await supabase
             .from('commands')
-            .insert(commandData);
+            .insert({ ...commandData, collection_id: collectionId })
+            .select()
+            .single();
 
           if (error) throw error;
+          commandId = data.id;
           
           toast({
             title: "Command created",
@@ -178,10 +214,12 @@ const CommandForm: React.FC<CommandFormProps> = ({ isOpen, onOpenChange, command
       } else {
         // Store for later sync when offline
         if (command) {
+          commandId = command.id;
           addPendingAction({
             type: 'update',
             table: 'commands',
-            data: { id: command.id, ...commandData }
+            data: { id: command.id, ...commandData },
+            baseUpdatedAt: command.updated_at,
           });
           
           toast({
@@ -189,10 +227,11 @@ const CommandForm: React.FC<CommandFormProps> = ({ isOpen, onOpenChange, command
             description: "Changes will sync when you're back online.",
           });
         } else {
+          commandId = crypto.randomUUID();
           addPendingAction({
             type: 'create',
             table: 'commands',
-            data: { ...commandData, id: crypto.randomUUID() }
+            data: { ...commandData, collection_id: collectionId, id: commandId }
           });
           
           toast({
@@ -202,6 +241,9 @@ const CommandForm: React.FC<CommandFormProps> = ({ isOpen, onOpenChange, command
         }
       }
 
+      // Queued as pending actions when offline
+      await saveLinks(commandId);
+
       onSuccess();
       onOpenChange(false);
     } catch (error: any) {
@@ -266,8 +308,37 @@ const CommandForm: React.FC<CommandFormProps> = ({ isOpen, onOpenChange, command
               className="font-mono"
               rows={3}
             />
+            <p className="text-xs text-muted-foreground">
+              Use <code>{'{{name}}'}</code>, <code>{'{{name:default=x}}'}</code> or <code>{'{{name:a|b|c}}'}</code> for
+              parts you fill in when copying.
+            </p>
           </div>
 
+          {/* Risk warnings */}
+          {findings.length > 0 && (
+            <div className="p-3 border border-destructive/20 bg-destructive/5 rounded-lg space-y-3">
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4 text-destructive" />
+                <span className="text-sm font-medium">
+                  {findings.length} warning{findings.length === 1 ? '' : 's'} for this command
+                </span>
+              </div>
+              <RiskFindings findings={findings} />
+              {findings.some(needsAcknowledgement) && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="acknowledge-risks"
+                    checked={!unacknowledged}
+                    onCheckedChange={(checked) => setAcknowledgedKey(checked ? findingsKey(findings) : '')}
+                  />
+                  <Label htmlFor="acknowledge-risks" className="text-sm font-normal">
+                    I understand what this command does and want to save it
+                  </Label>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* AI Suggestions */}
           {showAiSuggestions && aiAnalysis && (
             <Card className="border-primary/20">
@@ -390,12 +461,19 @@ const CommandForm: React.FC<CommandFormProps> = ({ isOpen, onOpenChange, command
               placeholder="e.g., linux, files, directory (comma separated)"
             />
           </div>
+
+          <LinkSelector
+            currentItemId={command?.id}
+            currentItemType="command"
+            selectedLinks={selectedLinks}
+            onLinksChange={setSelectedLinks}
+          />
           
           <div className="flex justify-end gap-2">
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
             </Button>
-            <Button type="submit" disabled={loading}>
+            <Button type="submit" disabled={loading || unacknowledged || !linksLoaded}>
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               {command ? 'Update' : 'Create'}
             </Button>
@@ -0,0 +1,248 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { Code, FileText, Network, Plus, Terminal } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCommandUsage } from '@/hooks/useCommandUsage';
+import { useOfflineStorage } from '@/hooks/useOfflineStorage';
+import TemplateFillDialog from './TemplateFillDialog';
+import { fillTemplate, hasPlaceholders } from '@/lib/commandTemplate';
+import { fuzzyScore, frecencyScore, loadUsage } from '@/lib/frecency';
+import { itemPath } from '@/lib/itemLinks';
+import { CommandUsage, usageFrecency } from '@/lib/commandUsage';
+
+interface PaletteCommand {
+  id: string;
+  title: string;
+  command: string;
+  tags?: string[];
+  updated_at: string;
+}
+
+interface PaletteNote {
+  id: string;
+  title: string;
+  tags?: string[];
+  updated_at: string;
+}
+
+interface PaletteData {
+  commands: PaletteCommand[];
+  notes: PaletteNote[];
+  usage: Record<string, CommandUsage>;
+}
+
+// Actions that need the main page's dialogs or tabs; Index picks them up from
+// the router state it is navigated to with
+export type PaletteAction = 'new-command' | 'new-note' | 'code-runner' | 'commands' | 'notes';
+
+interface RankedItem<T> {
+  item: T;
+  score: number;
+}
+
+// Enough to fill the list; the rest are a keystroke away
+const MAX_RESULTS = 30;
+
+// Title matches count most, then tags, then the command text itself
+const matchScore = (query: string, title: string, tags: string[] = [], body = '') =>
+  Math.max(fuzzyScore(title, query), fuzzyScore(tags.join(' '), query) * 0.6, fuzzyScore(body, query) * 0.3);
+
+const rank = <T extends { id: string; updated_at: string }>(
+  items: T[],
+  score: (item: T) => number,
+  frecency: (item: T) => number
+): RankedItem<T>[] =>
+  items
+    .map(item => {
+      const match = score(item);
+      // Frequently and recently used items float up, but never past a much better match
+      return { item, match, score: match * (1 + Math.log1p(frecency(item))) };
+    })
+    .filter(({ match }) => match > 0)
+    .sort((a, b) => b.score - a.score || b.item.updated_at.localeCompare(a.item.updated_at))
+    .slice(0, MAX_RESULTS);
+
+// Mounted once for every signed-in page. It searches the offline cache, which
+// Index keeps up to date, so it needs no data from the page it is opened on.
+const CommandPalette: React.FC = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const trackUsage = useCommandUsage();
+  const { cacheVersion, getCachedData } = useOfflineStorage();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [templateCommand, setTemplateCommand] = useState<PaletteCommand | null>(null);
+  const [data, setData] = useState<PaletteData>({ commands: [], notes: [], usage: {} });
+  const { commands, notes, usage } = data;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen(current => !current);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!open) setQuery('');
+  }, [open]);
+
+  // Read on open and whenever the cache changes while open, e.g. after a copy
+  useEffect(() => {
+    if (!open) return;
+    const cached = getCachedData();
+    if (cached) {
+      setData({
+        commands: cached.commands,
+        notes: cached.notes,
+        usage: Object.fromEntries(cached.commandUsage.map(row => [row.id, row])),
+      });
+    }
+  }, [open, cacheVersion, getCachedData]);
+
+  // Commands rank by their synced copy and run counts; note visits are only
+  // tracked on this device and are re-read on open to pick up fresh ones
+  const rankedCommands = useMemo(() => {
+    if (!open) return [];
+    const now = Date.now();
+    return rank(
+      commands,
+      cmd => matchScore(query, cmd.title, cmd.tags, cmd.command),
+      cmd => usageFrecency(usage[cmd.id], now)
+    );
+  }, [open, commands, usage, query]);
+  const rankedNotes = useMemo(() => {
+    if (!open) return [];
+    const noteUsage = loadUsage();
+    const now = Date.now();
+    return rank(
+      notes,
+      note => matchScore(query, note.title, note.tags),
+      note => frecencyScore(noteUsage, 'note', note.id, now)
+    );
+  }, [open, notes, query]);
+
+  const onMainPage = (paletteAction: PaletteAction) => () => navigate('/', { state: { paletteAction } });
+
+  const actions = [
+    { label: 'New command', icon: Plus, action: onMainPage('new-command') },
+    { label: 'New note', icon: Plus, action: onMainPage('new-note') },
+    { label: 'Open code runner', icon: Code, action: onMainPage('code-runner') },
+    { label: 'Go to Commands', icon: Terminal, action: onMainPage('commands') },
+    { label: 'Go to Notes', icon: FileText, action: onMainPage('notes') },
+    { label: 'Open graph', icon: Network, action: () => navigate('/graph') },
+  ].filter(({ label }) => fuzzyScore(label, query) > 0);
+
+  const run = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  const copyToClipboard = async (command: PaletteCommand, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      // Recording it updates the cache, and with it these totals and the list's
+      trackUsage(command.id, 'copy');
+      toast({
+        title: 'Copied to clipboard',
+        description: command.title,
+      });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to copy',
+        description: 'Could not copy command to clipboard.',
+      });
+    }
+  };
+
+  const selectCommand = (command: PaletteCommand) =>
+    run(() => {
+      if (hasPlaceholders(command.command)) setTemplateCommand(command);
+      else copyToClipboard(command, fillTemplate(command.command, {}));
+    });
+
+  // The note page records the visit itself
+  const selectNote = (note: PaletteNote) => run(() => navigate(itemPath('note', note.id)));
+
+  return (
+    <>
+      {/* Filtering is done here so results can be ranked by usage as well as match */}
+      <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
+        <CommandInput
+          placeholder="Search commands and notes, or type an action..."
+          value={query}
+          onValueChange={setQuery}
+        />
+        <CommandList>
+          <CommandEmpty>No results found.</CommandEmpty>
+
+          {rankedCommands.length > 0 && (
+            <CommandGroup heading="Commands">
+              {rankedCommands.map(({ item }) => (
+                <CommandItem key={item.id} value={`command:${item.id}`} onSelect={() => selectCommand(item)}>
+                  <Terminal className="mr-2 text-green-500" />
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate">{item.title}</p>
+                    <p className="truncate font-mono text-xs text-muted-foreground">{item.command}</p>
+                  </div>
+                  <CommandShortcut>{hasPlaceholders(item.command) ? 'Fill in' : 'Copy'}</CommandShortcut>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {rankedNotes.length > 0 && (
+            <CommandGroup heading="Notes">
+              {rankedNotes.map(({ item }) => (
+                <CommandItem key={item.id} value={`note:${item.id}`} onSelect={() => selectNote(item)}>
+                  <FileText className="mr-2 text-blue-500" />
+                  <span className="flex-1 truncate">{item.title}</span>
+                  <CommandShortcut>Open</CommandShortcut>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {actions.length > 0 && (rankedCommands.length > 0 || rankedNotes.length > 0) && <CommandSeparator />}
+
+          {actions.length > 0 && (
+            <CommandGroup heading="Actions">
+              {actions.map(({ label, icon: Icon, action }) => (
+                <CommandItem key={label} value={`action:${label}`} onSelect={() => run(action)}>
+                  <Icon className="mr-2" />
+                  {label}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+
+      {templateCommand && (
+        <TemplateFillDialog
+          isOpen={templateCommand !== null}
+          onOpenChange={(isOpen) => !isOpen && setTemplateCommand(null)}
+          command={templateCommand}
+          onCopy={(filled) => copyToClipboard(templateCommand, filled)}
+        />
+      )}
+    </>
+  );
+};
+
+export default CommandPalette;
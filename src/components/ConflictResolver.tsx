@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useOfflineStorage, PendingAction } from '@/hooks/useOfflineStorage';
+import { GitMerge, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ConflictResolverProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Side = 'mine' | 'theirs';
+type FieldValue = string | string[] | null;
+
+interface MergeField {
+  key: string;
+  label: string;
+  // Column in the versions table holding this field
+  versionKey: string;
+}
+
+// Only updates to commands and notes carry a base timestamp and can conflict
+const FIELDS: Record<string, MergeField[]> = {
+  commands: [
+    { key: 'title', label: 'Title', versionKey: 'title' },
+    { key: 'command', label: 'Command', versionKey: 'content' },
+    { key: 'description', label: 'Description', versionKey: 'description' },
+    { key: 'tags', label: 'Tags', versionKey: 'tags' },
+  ],
+  notes: [
+    { key: 'title', label: 'Title', versionKey: 'title' },
+    { key: 'content', label: 'Content', versionKey: 'content' },
+    { key: 'tags', label: 'Tags', versionKey: 'tags' },
+  ],
+};
+
+const normalize = (value: unknown): FieldValue => {
+  if (value === undefined || value === null || value === '') return null;
+  if (Array.isArray(value)) return value.length > 0 ? value.map(String) : null;
+  return String(value);
+};
+
+const sameValue = (a: FieldValue, b: FieldValue) => JSON.stringify(a) === JSON.stringify(b);
+
+// Standard three-way rule: whichever side moved away from the ancestor wins;
+// if both moved differently, the field needs a human decision.
+const defaultSide = (base: FieldValue | undefined, mine: FieldValue, theirs: FieldValue): Side => {
+  if (sameValue(mine, theirs)) return 'mine';
+  if (base === undefined) return 'mine';
+  if (sameValue(mine, base)) return 'theirs';
+  return 'mine';
+};
+
+const fieldStatus = (base: FieldValue | undefined, mine: FieldValue, theirs: FieldValue) => {
+  if (sameValue(mine, theirs)) return 'same';
+  if (base === undefined) return 'both';
+  if (sameValue(mine, base)) return 'theirs';
+  if (sameValue(theirs, base)) return 'mine';
+  return 'both';
+};
+
+const STATUS_LABELS = {
+  same: 'No difference',
+  mine: 'Changed offline',
+  theirs: 'Changed on server',
+  both: 'Changed in both',
+};
+
+const formatValue = (value: FieldValue) => {
+  if (value === null) return '(empty)';
+  return Array.isArray(value) ? value.join(', ') : value;
+};
+
+const ConflictResolver: React.FC<ConflictResolverProps> = ({ isOpen, onOpenChange }) => {
+  const { user } = useAuth();
+  const { conflictedActions, resolveConflict, discardPendingAction } = useOfflineStorage();
+  const [ancestor, setAncestor] = useState<Record<string, unknown> | null>(null);
+  const [choices, setChoices] = useState<Record<string, Side>>({});
+  const [loading, setLoading] = useState(false);
+
+  const action = conflictedActions[0];
+  const fields = action ? FIELDS[action.table] : [];
+
+  useEffect(() => {
+    if (isOpen && action) {
+      loadAncestor(action);
+    }
+  }, [isOpen, action?.id]);
+
+  useEffect(() => {
+    if (isOpen && !action) onOpenChange(false);
+  }, [isOpen, action]);
+
+  const loadAncestor = async (conflicted: PendingAction) => {
+    if (!user) return;
+
+    setLoading(true);
+    let base: Record<string, unknown> | null = null;
+
+    try {
+      // The versioning trigger stamps each saved version with the updated_at
+      // of the row it replaced, so the version at (or just before) our base
+      // timestamp is the state both edits started from.
+      if (conflicted.baseUpdatedAt) {
+        const { data, error } = await supabase
+          .from('versions')
+          .select('title, content, description, tags')
+          .eq('item_id', conflicted.data.id)
+          .eq('user_id', user.id)
+          .lte('created_at', conflicted.baseUpdatedAt)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (error) throw error;
+        base = data;
+      }
+    } catch (error) {
+      console.error('Error loading common ancestor:', error);
+    } finally {
+      setAncestor(base);
+      setChoices(Object.fromEntries(FIELDS[conflicted.table].map(field => [
+        field.key,
+        defaultSide(
+          base ? normalize(base[field.versionKey]) : undefined,
+          normalize(conflicted.data[field.key]),
+          normalize(conflicted.conflict?.[field.key])
+        ),
+      ])));
+      setLoading(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!action) return;
+
+    const merged = Object.fromEntries(fields.map(field => [
+      field.key,
+      choices[field.key] === 'theirs' ? action.conflict?.[field.key] ?? null : action.data[field.key] ?? null,
+    ]));
+    resolveConflict(action.id, merged);
+  };
+
+  if (!action) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            Merge changes
+          </DialogTitle>
+          <DialogDescription>
+            "{String(action.conflict?.title ?? action.data.title)}" was changed elsewhere while you edited it offline.
+            Pick which version of each field to keep.
+            {conflictedActions.length > 1 && ` ${conflictedActions.length - 1} more conflict(s) after this one.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {!ancestor && (
+              <p className="text-sm text-muted-foreground">
+                No common ancestor was found in the version history, so every differing field needs a choice.
+              </p>
+            )}
+
+            {fields.map((field) => {
+              const base = ancestor ? normalize(ancestor[field.versionKey]) : undefined;
+              const mine = normalize(action.data[field.key]);
+              const theirs = normalize(action.conflict?.[field.key]);
+              const status = fieldStatus(base, mine, theirs);
+
+              return (
+                <div key={field.key} className="space-y-2 border rounded-md p-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">{field.label}</span>
+                    <Badge variant={status === 'both' ? 'destructive' : 'outline'} className="text-xs">
+                      {STATUS_LABELS[status]}
+                    </Badge>
+                  </div>
+
+                  {status === 'same' ? (
+                    <pre className="text-sm whitespace-pre-wrap text-muted-foreground">{formatValue(mine)}</pre>
+                  ) : (
+                    <RadioGroup
+                      value={choices[field.key]}
+                      onValueChange={(value) => setChoices({ ...choices, [field.key]: value as Side })}
+                      className="grid gap-2 md:grid-cols-2"
+                    >
+                      {(['mine', 'theirs'] as Side[]).map((side) => (
+                        <Label
+                          key={side}
+                          htmlFor={`${field.key}-${side}`}
+                          className={cn(
+                            'flex items-start gap-2 rounded-md border p-2 cursor-pointer font-normal',
+                            choices[field.key] === side && 'border-primary bg-primary/5'
+                          )}
+                        >
+                          <RadioGroupItem value={side} id={`${field.key}-${side}`} className="mt-0.5" />
+                          <div className="min-w-0 space-y-1">
+                            <span className="text-xs font-medium">
+                              {side === 'mine' ? 'Your offline edit' : 'Server version'}
+                            </span>
+                            <pre className="text-sm whitespace-pre-wrap break-words">
+                              {formatValue(side === 'mine' ? mine : theirs)}
+                            </pre>
+                          </div>
+                        </Label>
+                      ))}
+                    </RadioGroup>
+                  )}
+
+                  {base !== undefined && status !== 'same' && (
+                    <p className="text-xs text-muted-foreground">
+                      Before either edit: <span className="whitespace-pre-wrap">{formatValue(base)}</span>
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => discardPendingAction(action.id)}>
+                Keep server version
+              </Button>
+              <Button onClick={handleApply} className="gap-2">
+                <GitMerge className="h-4 w-4" />
+                Apply merge
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ConflictResolver;
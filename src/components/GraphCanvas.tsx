@@ -0,0 +1,319 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  forceSimulation,
+  forceLink,
+  forceManyBody,
+  forceX,
+  forceY,
+  forceCollide,
+  Simulation,
+} from 'd3-force';
+import { GraphData, GraphNode, GraphEdge, TYPE_COLORS, tagColor } from '@/lib/graph';
+
+export type GraphColorMode = 'type' | 'tag';
+
+interface GraphCanvasProps {
+  graph: GraphData;
+  colorBy: GraphColorMode;
+  highlightOrphans: boolean;
+  onNodeClick: (node: GraphNode) => void;
+}
+
+interface Transform {
+  x: number;
+  y: number;
+  k: number;
+}
+
+const NODE_RADIUS = 5;
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 8;
+// Labels are only drawn once zoomed in far enough to read them
+const LABEL_ZOOM = 1.2;
+// Pointer travel below this still counts as a click rather than a pan
+const CLICK_TOLERANCE = 4;
+
+const nodeColor = (node: GraphNode, colorBy: GraphColorMode) =>
+  colorBy === 'tag' ? tagColor(node.tags[0]) : TYPE_COLORS[node.type];
+
+// Drawn on a canvas rather than as SVG elements so a few thousand nodes stay
+// smooth: every frame is a handful of batched paths, and nothing is redrawn
+// unless the simulation ticked or the view moved.
+const GraphCanvas: React.FC<GraphCanvasProps> = ({ graph, colorBy, highlightOrphans, onNodeClick }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const simulationRef = useRef<Simulation<GraphNode, GraphEdge> | null>(null);
+  const transformRef = useRef<Transform>({ x: 0, y: 0, k: 1 });
+  const sizeRef = useRef({ width: 0, height: 0 });
+  const dirtyRef = useRef(true);
+  const hoveredRef = useRef<GraphNode | null>(null);
+  const optionsRef = useRef({ colorBy, highlightOrphans, onNodeClick });
+  const [hovered, setHovered] = useState<GraphNode | null>(null);
+
+  optionsRef.current = { colorBy, highlightOrphans, onNodeClick };
+
+  useEffect(() => {
+    dirtyRef.current = true;
+  }, [colorBy, highlightOrphans]);
+
+  // Keep the canvas backing store in step with its box and the pixel ratio
+  useEffect(() => {
+    const container = containerRef.current;
+    const canvas = canvasRef.current;
+    if (!container || !canvas) return;
+
+    const resize = () => {
+      const { width, height } = container.getBoundingClientRect();
+      const ratio = window.devicePixelRatio || 1;
+      const first = sizeRef.current.width === 0;
+
+      canvas.width = Math.round(width * ratio);
+      canvas.height = Math.round(height * ratio);
+      canvas.style.width = `${width}px`;
+      canvas.style.height = `${height}px`;
+      sizeRef.current = { width, height };
+
+      // Start with the simulation origin in the middle of the view
+      if (first) transformRef.current = { x: width / 2, y: height / 2, k: 1 };
+      dirtyRef.current = true;
+    };
+
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const count = graph.nodes.length;
+    const simulation = forceSimulation<GraphNode>(graph.nodes)
+      .force('link', forceLink<GraphNode, GraphEdge>(graph.edges).id(node => node.id).distance(40))
+      // Barnes-Hut with a cut-off keeps the repulsion close to O(n log n)
+      .force('charge', forceManyBody<GraphNode>().strength(count > 1000 ? -20 : -60).theta(0.9).distanceMax(400))
+      // Weak pull to the origin instead of forceCenter so orphans don't drift off
+      .force('x', forceX<GraphNode>(0).strength(0.04))
+      .force('y', forceY<GraphNode>(0).strength(0.04))
+      .force('collide', forceCollide<GraphNode>(NODE_RADIUS + 1))
+      // Settle faster on large graphs; the simulation stops itself once cool
+      .alphaDecay(count > 1000 ? 0.05 : 0.0228)
+      .on('tick', () => {
+        dirtyRef.current = true;
+      });
+
+    simulationRef.current = simulation;
+    dirtyRef.current = true;
+
+    return () => {
+      simulation.stop();
+    };
+  }, [graph]);
+
+  // Single render loop that only paints when something changed
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    let frame = 0;
+
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      if (!dirtyRef.current) return;
+      dirtyRef.current = false;
+
+      const { width, height } = sizeRef.current;
+      const { x, y, k } = transformRef.current;
+      const { colorBy, highlightOrphans } = optionsRef.current;
+      const ratio = window.devicePixelRatio || 1;
+      const styles = getComputedStyle(canvas);
+
+      context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      context.clearRect(0, 0, width, height);
+      context.setTransform(ratio * k, 0, 0, ratio * k, ratio * x, ratio * y);
+
+      // Only nodes inside the viewport (plus a margin) are painted
+      const left = -x / k - NODE_RADIUS * 2;
+      const top = -y / k - NODE_RADIUS * 2;
+      const right = (width - x) / k + NODE_RADIUS * 2;
+      const bottom = (height - y) / k + NODE_RADIUS * 2;
+      const visible = graph.nodes.filter(
+        node => node.x !== undefined && node.x >= left && node.x <= right && node.y! >= top && node.y! <= bottom
+      );
+
+      context.beginPath();
+      for (const edge of graph.edges) {
+        const source = edge.source as GraphNode;
+        const target = edge.target as GraphNode;
+        if (source.x === undefined || target.x === undefined) continue;
+        context.moveTo(source.x, source.y!);
+        context.lineTo(target.x, target.y!);
+      }
+      context.strokeStyle = 'rgba(148, 163, 184, 0.45)';
+      context.lineWidth = 1 / k;
+      context.stroke();
+
+      // One path per colour; notes are circles, commands squares
+      const byColor = new Map<string, GraphNode[]>();
+      for (const node of visible) {
+        const color = nodeColor(node, colorBy);
+        if (!byColor.has(color)) byColor.set(color, []);
+        byColor.get(color)!.push(node);
+      }
+      for (const [color, nodes] of byColor) {
+        context.beginPath();
+        for (const node of nodes) {
+          if (node.type === 'note') {
+            context.moveTo(node.x! + NODE_RADIUS, node.y!);
+            context.arc(node.x!, node.y!, NODE_RADIUS, 0, Math.PI * 2);
+          } else {
+            context.rect(node.x! - NODE_RADIUS, node.y! - NODE_RADIUS, NODE_RADIUS * 2, NODE_RADIUS * 2);
+          }
+        }
+        context.fillStyle = color;
+        context.fill();
+      }
+
+      if (highlightOrphans) {
+        context.beginPath();
+        for (const node of visible) {
+          if (node.degree > 0) continue;
+          context.moveTo(node.x! + NODE_RADIUS + 3, node.y!);
+          context.arc(node.x!, node.y!, NODE_RADIUS + 3, 0, Math.PI * 2);
+        }
+        context.strokeStyle = '#ef4444';
+        context.lineWidth = 2 / k;
+        context.stroke();
+      }
+
+      const hoveredNode = hoveredRef.current;
+      if (hoveredNode?.x !== undefined) {
+        context.beginPath();
+        context.arc(hoveredNode.x, hoveredNode.y!, NODE_RADIUS + 2, 0, Math.PI * 2);
+        context.strokeStyle = '#f59e0b';
+        context.lineWidth = 2 / k;
+        context.stroke();
+      }
+
+      if (k >= LABEL_ZOOM) {
+        context.font = `${11 / k}px sans-serif`;
+        context.fillStyle = `hsl(${styles.getPropertyValue('--foreground').trim() || '0 0% 50%'})`;
+        context.textBaseline = 'middle';
+        for (const node of visible) {
+          context.fillText(node.title, node.x! + NODE_RADIUS + 3, node.y!);
+        }
+      }
+    };
+
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [graph]);
+
+  // Wheel zoom around the cursor; registered by hand so it can preventDefault
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const px = event.clientX - rect.left;
+      const py = event.clientY - rect.top;
+      const { x, y, k } = transformRef.current;
+      const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, k * Math.exp(-event.deltaY * 0.0015)));
+
+      transformRef.current = {
+        k: next,
+        x: px - ((px - x) / k) * next,
+        y: py - ((py - y) / k) * next,
+      };
+      dirtyRef.current = true;
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const dragRef = useRef<{ startX: number; startY: number; x: number; y: number; moved: boolean } | null>(null);
+
+  const nodeAt = (clientX: number, clientY: number) => {
+    const canvas = canvasRef.current;
+    const simulation = simulationRef.current;
+    if (!canvas || !simulation) return null;
+
+    const rect = canvas.getBoundingClientRect();
+    const { x, y, k } = transformRef.current;
+    // Keep nodes easy to hit when zoomed far out
+    const radius = Math.max(NODE_RADIUS + 2, 8 / k);
+    return simulation.find((clientX - rect.left - x) / k, (clientY - rect.top - y) / k, radius) ?? null;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const { x, y } = transformRef.current;
+    dragRef.current = { startX: event.clientX, startY: event.clientY, x, y, moved: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+
+    if (drag) {
+      const dx = event.clientX - drag.startX;
+      const dy = event.clientY - drag.startY;
+      if (!drag.moved && Math.hypot(dx, dy) < CLICK_TOLERANCE) return;
+      drag.moved = true;
+      transformRef.current = { ...transformRef.current, x: drag.x + dx, y: drag.y + dy };
+      dirtyRef.current = true;
+      return;
+    }
+
+    const node = nodeAt(event.clientX, event.clientY);
+    if (node !== hoveredRef.current) {
+      hoveredRef.current = node;
+      setHovered(node);
+      dirtyRef.current = true;
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && !drag.moved) {
+      const node = nodeAt(event.clientX, event.clientY);
+      if (node) optionsRef.current.onNodeClick(node);
+    }
+  };
+
+  const handlePointerLeave = () => {
+    if (hoveredRef.current) {
+      hoveredRef.current = null;
+      setHovered(null);
+      dirtyRef.current = true;
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative h-full w-full overflow-hidden">
+      <canvas
+        ref={canvasRef}
+        className={hovered ? 'cursor-pointer touch-none' : 'cursor-grab active:cursor-grabbing touch-none'}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerLeave}
+      />
+      {hovered && (
+        <div className="pointer-events-none absolute left-3 bottom-3 max-w-sm rounded-md border bg-popover px-3 py-2 text-sm shadow-md">
+          <p className="font-medium truncate">{hovered.title}</p>
+          <p className="text-xs text-muted-foreground">
+            {hovered.type === 'note' ? 'Note' : 'Command'}
+            {' · '}
+            {hovered.degree === 1 ? '1 link' : `${hovered.degree} links`}
+            {hovered.tags.length > 0 && ` · ${hovered.tags.join(', ')}`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GraphCanvas;
@@ -1,28 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { supabase } from '@/integrations/supabase/client';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAuth } from '@/hooks/useAuth';
 import { Search, Link2, Terminal, FileText, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useOfflineStorage } from '@/hooks/useOfflineStorage';
-
-interface LinkableItem {
-  id: string;
-  title: string;
-  type: 'note' | 'command';
-  content?: string;
-  command?: string;
-}
-
-interface SelectedLink {
-  id: string;
-  title: string;
-  type: 'note' | 'command';
-}
+import {
+  searchLinkableItems,
+  LinkedItem as LinkableItem,
+  SelectedLink,
+  LinkRelation,
+  LINK_RELATIONS,
+  RELATION_LABELS,
+  DEFAULT_RELATION,
+} from '@/lib/itemLinks';
 
 interface LinkSelectorProps {
   currentItemId?: string;
@@ -43,67 +37,31 @@ const LinkSelector: React.FC<LinkSelectorProps> = ({
   const [searchQuery, setSearchQuery] = useState('');
   const [availableItems, setAvailableItems] = useState<LinkableItem[]>([]);
   const [loading, setLoading] = useState(false);
+  // Relation given to the next item picked from the search results
+  const [newRelation, setNewRelation] = useState<LinkRelation>(DEFAULT_RELATION);
 
   useEffect(() => {
     if (user) {
       fetchAvailableItems();
     }
-  }, [user, searchQuery]);
+  }, [user, searchQuery, selectedLinks.length]);
 
   const fetchAvailableItems = async () => {
     if (!user) return;
-    
-    // Don't fetch when offline
-    if (!isOnline) {
-      setAvailableItems([]);
-      setLoading(false);
-      return;
-    }
-    
+
     setLoading(true);
 
     try {
-      const [notesResult, commandsResult] = await Promise.all([
-        supabase
-          .from('notes')
-          .select('id, title, content')
-          .eq('user_id', user.id)
-          .ilike('title', `%${searchQuery}%`)
-          .limit(10),
-        supabase
-          .from('commands')
-          .select('id, title, command')
-          .eq('user_id', user.id)
-          .ilike('title', `%${searchQuery}%`)
-          .limit(10),
-      ]);
-
-      if (notesResult.error) throw notesResult.error;
-      if (commandsResult.error) throw commandsResult.error;
-
-      const notes: LinkableItem[] = (notesResult.data || []).map(note => ({
-        id: note.id,
-        title: note.title,
-        type: 'note' as const,
-        content: note.content,
-      }));
-
-      const commands: LinkableItem[] = (commandsResult.data || []).map(cmd => ({
-        id: cmd.id,
-        title: cmd.title,
-        type: 'command' as const,
-        command: cmd.command,
-      }));
+      // Search the local cache so linking behaves the same online and offline
+      const items = await searchLinkableItems(searchQuery);
 
       // Filter out current item and already selected items
-      const allItems = [...notes, ...commands].filter(item => {
+      setAvailableItems(items.filter(item => {
         if (currentItemId && item.id === currentItemId) return false;
         return !selectedLinks.some(selected => selected.id === item.id);
-      });
-
-      setAvailableItems(allItems);
-    } catch (error: any) {
-      console.log('Link search unavailable offline');
+      }));
+    } catch (error) {
+      console.error('Error searching linkable items:', error);
       setAvailableItems([]);
     } finally {
       setLoading(false);
@@ -115,10 +73,21 @@ const LinkSelector: React.FC<LinkSelectorProps> = ({
       id: item.id,
       title: item.title,
       type: item.type,
+      relation: newRelation,
     };
     onLinksChange([...selectedLinks, newLink]);
   };
 
+  const handleRelationChange = (linkId: string, relation: LinkRelation) => {
+    onLinksChange(selectedLinks.map(link => (link.id === linkId ? { ...link, relation } : link)));
+  };
+
+  const relationOptions = LINK_RELATIONS.map((relation) => (
+    <SelectItem key={relation} value={relation}>
+      {RELATION_LABELS[relation]}
+    </SelectItem>
+  ));
+
   const handleRemoveLink = (linkId: string) => {
     onLinksChange(selectedLinks.filter(link => link.id !== linkId));
   };
@@ -134,16 +103,23 @@ const LinkSelector: React.FC<LinkSelectorProps> = ({
       {selectedLinks.length > 0 && (
         <div className="space-y-2">
           <p className="text-sm text-muted-foreground">Selected links:</p>
-          <div className="flex flex-wrap gap-2">
+          <div className="space-y-1">
             {selectedLinks.map((link) => (
-              <Badge key={link.id} variant="secondary" className="gap-1">
+              <div key={link.id} className="flex items-center gap-2 rounded-md border bg-muted/30 px-2 py-1">
+                <Select value={link.relation} onValueChange={(value) => handleRelationChange(link.id, value as LinkRelation)}>
+                  <SelectTrigger className="h-7 w-32 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>{relationOptions}</SelectContent>
+                </Select>
                 {link.type === 'note' ? (
-                  <FileText className="h-3 w-3" />
+                  <FileText className="h-3 w-3 flex-shrink-0 text-blue-500" />
                 ) : (
-                  <Terminal className="h-3 w-3" />
+                  <Terminal className="h-3 w-3 flex-shrink-0 text-green-500" />
                 )}
-                {link.title}
+                <span className="flex-1 min-w-0 truncate text-sm">{link.title}</span>
                 <Button
+                  type="button"
                   variant="ghost"
                   size="sm"
                   className="h-auto p-0 hover:bg-transparent"
@@ -151,26 +127,33 @@ const LinkSelector: React.FC<LinkSelectorProps> = ({
                 >
                   <X className="h-3 w-3" />
                 </Button>
-              </Badge>
+              </div>
             ))}
           </div>
         </div>
       )}
 
       {/* Search */}
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground h-4 w-4" />
-        <Input
-          placeholder={isOnline ? "Search notes and commands to link..." : "Link search unavailable offline"}
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
-          className="pl-10"
-          disabled={!isOnline}
-        />
+      <div className="flex gap-2">
+        <Select value={newRelation} onValueChange={(value) => setNewRelation(value as LinkRelation)}>
+          <SelectTrigger className="w-36" aria-label="Relation for new links">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>{relationOptions}</SelectContent>
+        </Select>
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground h-4 w-4" />
+          <Input
+            placeholder={isOnline ? "Search notes and commands to link..." : "Search cached notes and commands to link..."}
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
       </div>
 
       {/* Available Items */}
-      {searchQuery && isOnline && (
+      {searchQuery && (
         <Card>
           <CardContent className="p-2">
             <ScrollArea className="h-40">
@@ -0,0 +1,108 @@
+import React, { useMemo } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { cn } from '@/lib/utils';
+import { linkifyWikiLinks, TitleIndex, WIKI_HREF_PREFIX, BROKEN_WIKI_HREF_PREFIX } from '@/lib/wikiLinks';
+import type { ItemType } from '@/lib/itemLinks';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+  // Resolves [[Title]] links; without it they stay as plain text
+  titleIndex?: TitleIndex | null;
+  onWikiLinkClick?: (id: string, type: ItemType) => void;
+}
+
+// Raw HTML in the source is not rendered (no rehype-raw), and react-markdown
+// drops javascript: and other unsafe URLs, so note content can't inject markup.
+const baseComponents: Components = {
+  // Fenced blocks are rendered whole by the code component below
+  pre: ({ children }) => <>{children}</>,
+  code: ({ className, children }) => {
+    const language = /language-([\w-]+)/.exec(className || '')?.[1];
+    const text = String(children);
+
+    // Inline code has neither a language nor a trailing newline
+    if (!language && !text.endsWith('\n')) {
+      return <code className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em] before:content-none after:content-none">{children}</code>;
+    }
+
+    return (
+      <div className="not-prose my-3 rounded-md overflow-hidden">
+        <SyntaxHighlighter
+          language={language || 'text'}
+          style={oneDark}
+          customStyle={{
+            margin: 0,
+            padding: '12px',
+            fontSize: '13px',
+            lineHeight: '1.4',
+          }}
+          wrapLongLines={true}
+        >
+          {text.replace(/\n$/, '')}
+        </SyntaxHighlighter>
+      </div>
+    );
+  },
+  table: ({ children }) => (
+    <div className="overflow-x-auto">
+      <table>{children}</table>
+    </div>
+  ),
+};
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, className, titleIndex, onWikiLinkClick }) => {
+  const source = useMemo(
+    () => (titleIndex ? linkifyWikiLinks(content, titleIndex) : content),
+    [content, titleIndex]
+  );
+
+  const components = useMemo((): Components => ({
+    ...baseComponents,
+    a: ({ href, children }) => {
+      if (href?.startsWith(WIKI_HREF_PREFIX)) {
+        const [type, id] = href.slice(WIKI_HREF_PREFIX.length).split('/');
+        return (
+          <button
+            type="button"
+            onClick={() => onWikiLinkClick?.(id, type as ItemType)}
+            className="text-primary underline decoration-dotted underline-offset-2 hover:decoration-solid"
+          >
+            {children}
+          </button>
+        );
+      }
+
+      if (href?.startsWith(BROKEN_WIKI_HREF_PREFIX)) {
+        const title = decodeURIComponent(href.slice(BROKEN_WIKI_HREF_PREFIX.length));
+        return (
+          <span
+            title={`Broken link: nothing is titled "${title}"`}
+            className="text-destructive line-through decoration-dotted"
+          >
+            {children}
+          </span>
+        );
+      }
+
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer nofollow">
+          {children}
+        </a>
+      );
+    },
+  }), [onWikiLinkClick]);
+
+  return (
+    <div className={cn('prose prose-sm dark:prose-invert max-w-none break-words', className)}>
+      <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
+        {source}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownContent;
@@ -1,9 +1,17 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Edit, Trash2 } from 'lucide-react';
+import { Edit, Trash2, History, AlertTriangle, X } from 'lucide-react';
 import LinkedItems from './LinkedItems';
+import Backlinks from './Backlinks';
+import VersionHistory from './VersionHistory';
+import MarkdownContent from './MarkdownContent';
+import { LEGACY_NOTE_CONTENT_LENGTH } from '@/lib/validation';
+import { useTitleIndex } from '@/hooks/useTitleIndex';
+import { itemPath, ItemType, LinkedItem } from '@/lib/itemLinks';
 
 interface Note {
   id: string;
@@ -14,19 +22,57 @@ interface Note {
   updated_at: string;
 }
 
+const DISMISSED_TRUNCATION_KEY = 'devnotes-truncation-notice-dismissed';
+
+const loadDismissed = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(DISMISSED_TRUNCATION_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
 interface NoteCardProps {
   note: Note;
   onEdit: (note: Note) => void;
   onDelete: (id: string) => void;
+  onRestored?: () => void;
+  onOpenItem?: (id: string, type: ItemType) => void;
+  // Items linking to this note, worked out once for the whole list
+  backlinks?: LinkedItem[];
 }
 
-const NoteCard: React.FC<NoteCardProps> = ({ note, onEdit, onDelete }) => {
+const NoteCard: React.FC<NoteCardProps> = ({ note, onEdit, onDelete, onRestored, onOpenItem, backlinks = [] }) => {
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const titleIndex = useTitleIndex();
+  // Notes used to be cut to 1000 characters on save without warning
+  const [showTruncationNotice, setShowTruncationNotice] = useState(
+    () => note.content.length === LEGACY_NOTE_CONTENT_LENGTH && !loadDismissed().includes(note.id)
+  );
+
+  const dismissTruncationNotice = () => {
+    localStorage.setItem(DISMISSED_TRUNCATION_KEY, JSON.stringify([...loadDismissed(), note.id]));
+    setShowTruncationNotice(false);
+  };
+
   return (
     <Card className="animate-fade-in hover:shadow-md transition-all duration-300">
       <CardHeader className="pb-2">
         <div className="flex items-start justify-between">
-          <CardTitle className="text-lg font-semibold">{note.title}</CardTitle>
+          <CardTitle className="text-lg font-semibold">
+            <Link to={itemPath('note', note.id)} className="hover:underline">
+              {note.title}
+            </Link>
+          </CardTitle>
           <div className="flex gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setHistoryOpen(true)}
+              className="h-8 w-8 p-0"
+            >
+              <History className="h-4 w-4" />
+            </Button>
             <Button
               variant="ghost"
               size="sm"
@@ -47,9 +93,28 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onEdit, onDelete }) => {
         </div>
       </CardHeader>
       <CardContent className="space-y-3">
-        <div className="prose prose-sm max-w-none">
-          <p className="text-sm whitespace-pre-wrap">{note.content}</p>
-        </div>
+        {showTruncationNotice && (
+          <Alert className="py-2">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription className="flex items-start justify-between gap-2 text-xs">
+              <span>
+                This note is exactly 1,000 characters, the old size limit. It may have been cut off or had
+                {' < and > '}removed when it was saved. Notes can now be much longer.
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={dismissTruncationNotice}
+                className="h-5 w-5 p-0 flex-shrink-0"
+                title="Don't show again"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <MarkdownContent content={note.content} titleIndex={titleIndex} onWikiLinkClick={onOpenItem} />
         
         {note.tags && note.tags.length > 0 && (
           <div className="flex flex-wrap gap-1">
@@ -61,12 +126,30 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onEdit, onDelete }) => {
           </div>
         )}
         
-        <LinkedItems itemId={note.id} itemType="note" />
+        <LinkedItems
+          itemId={note.id}
+          itemType="note"
+          onItemClick={onOpenItem && ((item) => onOpenItem(item.id, item.type))}
+        />
+        <Backlinks
+          itemType="note"
+          title={note.title}
+          sources={backlinks}
+          onItemClick={onOpenItem && ((item) => onOpenItem(item.id, item.type))}
+        />
         
         <div className="text-xs text-muted-foreground">
           Created: {new Date(note.created_at).toLocaleDateString()}
         </div>
       </CardContent>
+
+      <VersionHistory
+        isOpen={historyOpen}
+        onOpenChange={setHistoryOpen}
+        itemType="note"
+        current={note}
+        onRestored={onRestored}
+      />
     </Card>
   );
 };
@@ -1,16 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { useOfflineStorage } from '@/hooks/useOfflineStorage';
-import { sanitizeText, validateTags } from '@/lib/validation';
+import { cn } from '@/lib/utils';
+import { sanitizeText, validateNoteContent, validateTags, NOTE_CONTENT_MAX_LENGTH } from '@/lib/validation';
 import { Loader2 } from 'lucide-react';
+import MarkdownContent from './MarkdownContent';
+import WikiLinkTextarea from './WikiLinkTextarea';
 import LinkSelector from './LinkSelector';
+import { loadTitleIndex, mergeWikiLinks, wikiLinkTargets } from '@/lib/wikiLinks';
+import { useTitleIndex } from '@/hooks/useTitleIndex';
+import { useItemLinks } from '@/hooks/useItemLinks';
 
 interface Note {
   id: string;
@@ -25,16 +30,12 @@ interface NoteFormProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
   note?: Note | null;
+  // Collection a new note is filed into; edits keep their collection
+  collectionId?: string | null;
   onSuccess: () => void;
 }
 
-interface SelectedLink {
-  id: string;
-  title: string;
-  type: 'note' | 'command';
-}
-
-const NoteForm: React.FC<NoteFormProps> = ({ isOpen, onOpenChange, note, onSuccess }) => {
+const NoteForm: React.FC<NoteFormProps> = ({ isOpen, onOpenChange, note, collectionId = null, onSuccess }) => {
   const { user } = useAuth();
   const { toast } = useToast();
   const { isOnline, addPendingAction } = useOfflineStorage();
@@ -44,7 +45,8 @@ const NoteForm: React.FC<NoteFormProps> = ({ isOpen, onOpenChange, note, onSucce
     content: '',
     tags: '',
   });
-  const [selectedLinks, setSelectedLinks] = useState<SelectedLink[]>([]);
+  const { selectedLinks, setSelectedLinks, existingLinks, linksLoaded, loadLinks, resetLinks, saveLinks } = useItemLinks('note');
+  const titleIndex = useTitleIndex();
 
   useEffect(() => {
     if (note) {
@@ -53,107 +55,29 @@ const NoteForm: React.FC<NoteFormProps> = ({ isOpen, onOpenChange, note, onSucce
         content: note.content,
         tags: note.tags ? note.tags.join(', ') : '',
       });
-      loadExistingLinks(note.id);
+      loadLinks(note.id);
     } else {
       setFormData({
         title: '',
         content: '',
         tags: '',
       });
-      setSelectedLinks([]);
+      resetLinks();
     }
   }, [note, isOpen]);
 
-  const loadExistingLinks = async (noteId: string) => {
-    if (!user) return;
-
-    try {
-      const { data: links, error } = await supabase
-        .from('note_links')
-        .select('to_id, to_type')
-        .eq('from_id', noteId)
-        .eq('from_type', 'note')
-        .eq('user_id', user.id);
-
-      if (error) throw error;
-
-      if (links && links.length > 0) {
-        // Fetch the actual linked items
-        const noteIds = links.filter(link => link.to_type === 'note').map(link => link.to_id);
-        const commandIds = links.filter(link => link.to_type === 'command').map(link => link.to_id);
-
-        const loadedLinks: SelectedLink[] = [];
-
-        if (noteIds.length > 0) {
-          const { data: notes, error: notesError } = await supabase
-            .from('notes')
-            .select('id, title')
-            .in('id', noteIds)
-            .eq('user_id', user.id);
-
-          if (notesError) throw notesError;
-          if (notes) {
-            loadedLinks.push(...notes.map(note => ({
-              id: note.id,
-              title: note.title,
-              type: 'note' as const,
-            })));
-          }
-        }
-
-        if (commandIds.length > 0) {
-          const { data: commands, error: commandsError } = await supabase
-            .from('commands')
-            .select('id, title')
-            .in('id', commandIds)
-            .eq('user_id', user.id);
-
-          if (commandsError) throw commandsError;
-          if (commands) {
-            loadedLinks.push(...commands.map(cmd => ({
-              id: cmd.id,
-              title: cmd.title,
-              type: 'command' as const,
-            })));
-          }
-        }
-
-        setSelectedLinks(loadedLinks);
-      }
-    } catch (error: any) {
-      console.error('Error loading existing links:', error);
-    }
-  };
-
-  const saveLinks = async (noteId: string) => {
-    if (!user) return;
-
+  // [[Title]] links in the body become note_links rows alongside the ones
+  // picked in the selector; removing one from the body removes its row
+  const saveNoteLinks = async (noteId: string, content: string) => {
     try {
-      // First, delete existing links for this note
-      await supabase
-        .from('note_links')
-        .delete()
-        .eq('from_id', noteId)
-        .eq('from_type', 'note')
-        .eq('user_id', user.id);
-
-      // Then, insert new links
-      if (selectedLinks.length > 0) {
-        const linksToInsert = selectedLinks.map(link => ({
-          user_id: user.id,
-          from_id: noteId,
-          from_type: 'note',
-          to_id: link.id,
-          to_type: link.type,
-        }));
-
-        const { error } = await supabase
-          .from('note_links')
-          .insert(linksToInsert);
-
-        if (error) throw error;
-      }
-    } catch (error: any) {
+      const titles = await loadTitleIndex();
+      await saveLinks(noteId, mergeWikiLinks(
+        selectedLinks,
+        existingLinks,
+        wikiLinkTargets(note?.content ?? '', titles, noteId),
+        wikiLinkTargets(content, titles, noteId)
+      ));
+    } catch (error) {
       console.error('Error saving links:', error);
       throw error;
     }
@@ -172,7 +96,7 @@ const NoteForm: React.FC<NoteFormProps> = ({ isOpen, onOpenChange, note, onSucce
       }
 
       const sanitizedTitle = sanitizeText(formData.title);
-      const sanitizedContent = sanitizeText(formData.content);
+      const sanitizedContent = validateNoteContent(formData.content);
       
       const tagsArray = validateTags(
         formData.tags
@@ -209,7 +133,7 @@ const NoteForm: React.FC<NoteFormProps> = ({ isOpen, onOpenChange, note, onSucce
           // Create new note
           const { data, error } = await supabase
             .from('notes')
-            .insert(noteData)
+            .insert({ ...noteData, collection_id: collectionId })
             .select()
             .single();
 
@@ -221,9 +145,6 @@ const NoteForm: React.FC<NoteFormProps> = ({ isOpen, onOpenChange, note, onSucce
             description: "Your note has been created successfully.",
           });
         }
-
-        // Save links only when online
-        await saveLinks(noteId);
       } else {
         // Store for later sync when offline
         if (note) {
@@ -231,7 +152,8 @@ const NoteForm: React.FC<NoteFormProps> = ({ isOpen, onOpenChange, note, onSucce
           addPendingAction({
             type: 'update',
             table: 'notes',
-            data: { id: note.id, ...noteData }
+            data: { id: note.id, ...noteData },
+            baseUpdatedAt: note.updated_at,
           });
           
           toast({
@@ -243,7 +165,7 @@ const NoteForm: React.FC<NoteFormProps> = ({ isOpen, onOpenChange, note, onSucce
           addPendingAction({
             type: 'create',
             table: 'notes',
-            data: { ...noteData, id: noteId }
+            data: { ...noteData, collection_id: collectionId, id: noteId }
           });
           
           toast({
@@ -251,9 +173,11 @@ const NoteForm: React.FC<NoteFormProps> = ({ isOpen, onOpenChange, note, onSucce
             description: "Will sync when you're back online.",
           });
         }
-        // Skip saving links when offline for simplicity
       }
 
+      // Queued as pending actions when offline
+      await saveNoteLinks(noteId, sanitizedContent);
+
       onSuccess();
       onOpenChange(false);
     } catch (error: any) {
@@ -269,7 +193,7 @@ const NoteForm: React.FC<NoteFormProps> = ({ isOpen, onOpenChange, note, onSucce
 
   return (
     <Dialog open={isOpen} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[600px]">
+      <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             {note ? 'Edit Note' : 'Add New Note'}
@@ -291,15 +215,37 @@ const NoteForm: React.FC<NoteFormProps> = ({ isOpen, onOpenChange, note, onSucce
           </div>
           
           <div className="space-y-2">
-            <Label htmlFor="content">Content *</Label>
-            <Textarea
-              id="content"
-              value={formData.content}
-              onChange={(e) => setFormData({ ...formData, content: e.target.value })}
-              placeholder="Write your note content here..."
-              rows={8}
-              required
-            />
+            <div className="flex items-center justify-between">
+              <Label htmlFor="content">Content *</Label>
+              <span className="text-xs text-muted-foreground">Markdown and [[links]] supported</span>
+            </div>
+            <div className="grid gap-3 md:grid-cols-2">
+              <WikiLinkTextarea
+                id="content"
+                value={formData.content}
+                onChange={(content) => setFormData({ ...formData, content })}
+                placeholder="Write your note content here... **bold**, - lists, ```bash code```, [[Another note]], [[cmd:A command]]"
+                rows={14}
+                required
+                className="font-mono text-sm"
+              />
+              {/* Live preview */}
+              <div className="rounded-md border bg-muted/30 p-3 overflow-y-auto max-h-[22rem] min-h-[8rem]">
+                {formData.content.trim() ? (
+                  <MarkdownContent content={formData.content} titleIndex={titleIndex} />
+                ) : (
+                  <p className="text-sm text-muted-foreground">Preview appears here as you type.</p>
+                )}
+              </div>
+            </div>
+            <p
+              className={cn(
+                'text-xs text-right',
+                formData.content.trim().length > NOTE_CONTENT_MAX_LENGTH ? 'text-destructive' : 'text-muted-foreground'
+              )}
+            >
+              {formData.content.trim().length.toLocaleString()} / {NOTE_CONTENT_MAX_LENGTH.toLocaleString()} characters
+            </p>
           </div>
           
           <div className="space-y-2">
@@ -323,7 +269,7 @@ const NoteForm: React.FC<NoteFormProps> = ({ isOpen, onOpenChange, note, onSucce
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
             </Button>
-            <Button type="submit" disabled={loading}>
+            <Button type="submit" disabled={loading || !linksLoaded}>
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               {note ? 'Update' : 'Create'}
             </Button>
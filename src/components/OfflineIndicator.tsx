@@ -1,10 +1,37 @@
-import React from 'react';
-import { Wifi, WifiOff, Loader2 } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Wifi, WifiOff, Loader2, AlertTriangle, RefreshCw, X, GitMerge } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
-import { useOfflineStorage } from '@/hooks/useOfflineStorage';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useOfflineStorage, PendingAction } from '@/hooks/useOfflineStorage';
+import ConflictResolver from './ConflictResolver';
+
+const describeAction = (action: PendingAction) => {
+  const labels = { commands: 'command', notes: 'note', note_links: 'link' };
+  const label = labels[action.table];
+  const title = action.data?.title ? ` "${action.data.title}"` : '';
+  return `${action.type.charAt(0).toUpperCase()}${action.type.slice(1)} ${label}${title}`;
+};
 
 const OfflineIndicator = () => {
-  const { isOnline, pendingActions } = useOfflineStorage();
+  const {
+    isOnline,
+    pendingActions,
+    failedActions,
+    conflictedActions,
+    syncing,
+    syncProgress,
+    syncPendingActions,
+    discardPendingAction,
+  } = useOfflineStorage();
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const conflictCount = useRef(conflictedActions.length);
+
+  // Prompt for a merge as soon as sync detects a new conflict
+  useEffect(() => {
+    if (conflictedActions.length > conflictCount.current) setMergeOpen(true);
+    conflictCount.current = conflictedActions.length;
+  }, [conflictedActions.length]);
 
   if (isOnline && pendingActions.length === 0) {
     return null; // Don't show anything when online and no pending actions
@@ -12,6 +39,7 @@ const OfflineIndicator = () => {
 
   return (
     <div className="fixed top-4 right-4 z-50">
+      <ConflictResolver isOpen={mergeOpen} onOpenChange={setMergeOpen} />
       {!isOnline ? (
         <Badge variant="destructive" className="gap-2 animate-pulse">
           <WifiOff className="h-3 w-3" />
@@ -22,10 +50,59 @@ const OfflineIndicator = () => {
             </span>
           )}
         </Badge>
+      ) : syncing ? (
+        <Badge variant="secondary" className="gap-2">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Syncing {syncProgress.done}/{syncProgress.total} changes
+        </Badge>
+      ) : conflictedActions.length > 0 ? (
+        <Badge variant="destructive" className="gap-2 cursor-pointer" onClick={() => setMergeOpen(true)}>
+          <GitMerge className="h-3 w-3" />
+          {conflictedActions.length} conflict{conflictedActions.length === 1 ? '' : 's'} to resolve
+        </Badge>
+      ) : failedActions.length > 0 ? (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Badge variant="destructive" className="gap-2 cursor-pointer">
+              <AlertTriangle className="h-3 w-3" />
+              {failedActions.length} change{failedActions.length === 1 ? '' : 's'} failed to sync
+            </Badge>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-80 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Failed changes</span>
+              <Button variant="outline" size="sm" className="gap-1" onClick={() => syncPendingActions()}>
+                <RefreshCw className="h-3 w-3" />
+                Retry
+              </Button>
+            </div>
+            <ul className="space-y-2 max-h-64 overflow-y-auto">
+              {failedActions.map((action) => (
+                <li key={action.id} className="flex items-start justify-between gap-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{describeAction(action)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {action.lastError} ({action.attempts} attempt{action.attempts === 1 ? '' : 's'})
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 flex-shrink-0"
+                    title="Discard this change"
+                    onClick={() => discardPendingAction(action.id)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </PopoverContent>
+        </Popover>
       ) : pendingActions.length > 0 ? (
         <Badge variant="secondary" className="gap-2">
           <Loader2 className="h-3 w-3 animate-spin" />
-          Syncing {pendingActions.length} changes
+          {pendingActions.length} changes waiting to sync
         </Badge>
       ) : (
         <Badge variant="default" className="gap-2">
@@ -37,4 +114,4 @@ const OfflineIndicator = () => {
   );
 };
 
-export default OfflineIndicator;
\ No newline at end of file
+export default OfflineIndicator;
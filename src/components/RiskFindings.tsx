@@ -0,0 +1,62 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { RiskFinding, RiskSeverity, highestSeverity } from '@/lib/commandRisk';
+import { ShieldAlert } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface RiskFindingsProps {
+  findings: RiskFinding[];
+  className?: string;
+}
+
+const SEVERITY_STYLES: Record<RiskSeverity, string> = {
+  low: 'bg-muted text-muted-foreground border-transparent',
+  medium: 'bg-yellow-500/15 text-yellow-700 dark:text-yellow-400 border-transparent',
+  high: 'bg-orange-500/15 text-orange-700 dark:text-orange-400 border-transparent',
+  critical: 'bg-destructive text-destructive-foreground border-transparent',
+};
+
+const RiskFindings: React.FC<RiskFindingsProps> = ({ findings, className }) => (
+  <ul className={cn('space-y-2', className)}>
+    {findings.map((finding) => (
+      <li key={`${finding.rule}-${finding.start}-${finding.end}`} className="flex items-start gap-2 text-sm">
+        <Badge variant="outline" className={cn('text-xs capitalize flex-shrink-0', SEVERITY_STYLES[finding.severity])}>
+          {finding.severity}
+        </Badge>
+        <div className="min-w-0 space-y-1">
+          <code className="block text-xs font-mono bg-muted rounded px-1.5 py-0.5 break-all">{finding.match}</code>
+          <p className="text-xs text-muted-foreground">{finding.message}</p>
+        </div>
+      </li>
+    ))}
+  </ul>
+);
+
+// Compact badge in the colour of the worst finding, opening the full list
+export const RiskSummary: React.FC<{ findings: RiskFinding[] }> = ({ findings }) => {
+  const severity = highestSeverity(findings);
+  if (!severity) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            'inline-flex items-center gap-1 rounded-full border px-2.5 py-0.5 text-xs font-semibold',
+            SEVERITY_STYLES[severity]
+          )}
+        >
+          <ShieldAlert className="h-3 w-3" />
+          {findings.length} risk warning{findings.length === 1 ? '' : 's'}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80">
+        <RiskFindings findings={findings} />
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default RiskFindings;
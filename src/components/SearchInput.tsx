@@ -0,0 +1,102 @@
+import React, { useState, useRef } from 'react';
+import { Input } from '@/components/ui/input';
+import { Search } from 'lucide-react';
+import { getCompletions, CompletionResult } from '@/lib/searchQuery';
+import { cn } from '@/lib/utils';
+
+interface SearchInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  tags: string[];
+  error?: string | null;
+}
+
+const SearchInput: React.FC<SearchInputProps> = ({ value, onChange, tags, error }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [completions, setCompletions] = useState<CompletionResult | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const refreshCompletions = (text: string, cursor: number | null) => {
+    setCompletions(cursor === null ? null : getCompletions(text, cursor, tags));
+    setHighlighted(0);
+  };
+
+  const applyCompletion = (index: number) => {
+    if (!completions) return;
+    const { insert } = completions.items[index];
+    // Field keys end in ":" and still need a value, so keep completing
+    const suffix = insert.endsWith(':') ? '' : ' ';
+    const next = value.slice(0, completions.from) + insert + suffix + value.slice(completions.to).trimStart();
+    const cursor = completions.from + insert.length + suffix.length;
+
+    onChange(next);
+    refreshCompletions(next, insert.endsWith(':') ? cursor : null);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!completions) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % completions.items.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + completions.items.length) % completions.items.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applyCompletion(highlighted);
+    } else if (e.key === 'Escape') {
+      setCompletions(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground h-4 w-4" />
+      <Input
+        ref={inputRef}
+        placeholder='Search... e.g. docker tag:k8s -type:note "exact phrase"'
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          refreshCompletions(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setCompletions(null)}
+        className={cn('pl-10', error && 'border-destructive focus-visible:ring-destructive')}
+        aria-invalid={!!error}
+      />
+
+      {completions && (
+        <ul className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+          {completions.items.map((item, index) => (
+            <li
+              key={item.label}
+              // Keep focus in the input so the blur handler doesn't close the list first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                applyCompletion(index);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                'flex items-center justify-between gap-4 rounded-sm px-2 py-1.5 text-sm cursor-pointer',
+                index === highlighted && 'bg-accent text-accent-foreground'
+              )}
+            >
+              <span className="font-mono">{item.label}</span>
+              {item.description && (
+                <span className="text-xs text-muted-foreground truncate">{item.description}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchInput;
@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Search, Terminal, FileText, ChevronLeft, ChevronRight } from 'lucide-react';
+import type { Database } from '@/integrations/supabase/types';
+
+type SearchHit = Database['public']['Functions']['search_items']['Returns'][number];
+
+interface SearchResultsProps {
+  query: string;
+  onSelect: (id: string, type: 'command' | 'note') => void;
+}
+
+const PAGE_SIZE = 20;
+const DEBOUNCE_MS = 300;
+
+// ts_headline wraps matches in <mark> tags. Split on them and render plain
+// text nodes so the rest of the snippet is still escaped by React.
+const Highlighted: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {text.split(/(<mark>.*?<\/mark>)/s).map((part, index) =>
+      part.startsWith('<mark>') && part.endsWith('</mark>') ? (
+        <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+          {part.slice(6, -7)}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{part}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+const SearchResults: React.FC<SearchResultsProps> = ({ query, onSelect }) => {
+  const { toast } = useToast();
+  const [results, setResults] = useState<SearchHit[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  // A new query starts again from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [query]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase.rpc('search_items', {
+          search_query: query,
+          page_size: PAGE_SIZE,
+          page_offset: page * PAGE_SIZE,
+        });
+
+        if (error) throw error;
+        if (cancelled) return;
+
+        setResults(data || []);
+        setTotal(data && data.length > 0 ? Number(data[0].total_count) : 0);
+      } catch (error) {
+        if (cancelled) return;
+        toast({
+          variant: 'destructive',
+          title: 'Search failed',
+          description: (error as Error).message,
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, page]);
+
+  const pageCount = Math.ceil(total / PAGE_SIZE);
+
+  if (loading && results.length === 0) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Search className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+        <h3 className="text-lg font-semibold mb-2">No matches</h3>
+        <p className="text-muted-foreground">Nothing in your commands or notes matches "{query}"</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span className="flex items-center gap-2">
+          {total} result{total === 1 ? '' : 's'}
+          {loading && <Loader2 className="h-3 w-3 animate-spin" />}
+        </span>
+        {pageCount > 1 && (
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page - 1)}
+              disabled={page === 0 || loading}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span>
+              Page {page + 1} of {pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pageCount - 1 || loading}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {results.map((hit) => {
+          const type = hit.item_type === 'command' ? 'command' : 'note';
+          const Icon = type === 'command' ? Terminal : FileText;
+
+          return (
+            <Card
+              key={`${type}-${hit.item_id}`}
+              className="cursor-pointer hover:shadow-md transition-all duration-300"
+              onClick={() => onSelect(hit.item_id, type)}
+            >
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base font-semibold flex items-center gap-2">
+                  <Icon className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                  <span className="truncate">
+                    <Highlighted text={hit.title_highlight} />
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <p
+                  className={
+                    type === 'command'
+                      ? 'text-sm font-mono bg-muted rounded-md p-2 whitespace-pre-wrap break-words'
+                      : 'text-sm text-muted-foreground whitespace-pre-wrap break-words'
+                  }
+                >
+                  <Highlighted text={hit.snippet} />
+                </p>
+                {hit.tags && hit.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {hit.tags.map((tag) => (
+                      <Badge key={tag} variant="secondary" className="text-xs">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SearchResults;
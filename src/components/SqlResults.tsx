@@ -0,0 +1,107 @@
+import React, { useMemo, useState } from 'react';
+import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { MAX_ROWS, SqlCell, SqlColumn, SqlResultSet } from '@/lib/sqlRunner';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+
+interface SqlResultsProps {
+  resultSets: SqlResultSet[];
+  notices: string[];
+}
+
+interface SortState {
+  column: number;
+  direction: 'asc' | 'desc';
+}
+
+// NULLs always sort last, whichever way the column is sorted
+const compareCells = (a: SqlCell, b: SqlCell, column: SqlColumn, direction: SortState['direction']) => {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  const order = column.numeric ? Number(a) - Number(b) : a.localeCompare(b, undefined, { numeric: true });
+  return direction === 'asc' ? order : -order;
+};
+
+const describeRows = (count: number) => `(${count} ${count === 1 ? 'row' : 'rows'})`;
+
+const ResultTable: React.FC<{ resultSet: SqlResultSet }> = ({ resultSet }) => {
+  const [sort, setSort] = useState<SortState | null>(null);
+
+  const rows = useMemo(() => {
+    if (!sort) return resultSet.rows;
+    const column = resultSet.columns[sort.column];
+    return [...resultSet.rows].sort((a, b) => compareCells(a[sort.column], b[sort.column], column, sort.direction));
+  }, [resultSet, sort]);
+
+  // Ascending, then descending, then back to the order the query returned
+  const handleSort = (column: number) => {
+    setSort((current) => {
+      if (current?.column !== column) return { column, direction: 'asc' };
+      return current.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+  };
+
+  const rowCount = resultSet.rowCount ?? resultSet.rows.length;
+
+  return (
+    <div className="border rounded-lg overflow-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {resultSet.columns.map((column, index) => {
+              const SortIcon = sort?.column !== index ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+              return (
+                <TableHead key={index} className={column.numeric ? 'text-right' : undefined}>
+                  <button
+                    type="button"
+                    className="inline-flex items-center gap-1 font-mono hover:text-foreground"
+                    onClick={() => handleSort(index)}
+                  >
+                    {column.name}
+                    <SortIcon className={sort?.column === index ? 'h-3 w-3' : 'h-3 w-3 opacity-40'} />
+                  </button>
+                </TableHead>
+              );
+            })}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row, rowIndex) => (
+            <TableRow key={rowIndex}>
+              {row.map((cell, index) => (
+                <TableCell
+                  key={index}
+                  className={`py-1.5 font-mono text-xs whitespace-pre ${resultSet.columns[index].numeric ? 'text-right' : ''}`}
+                >
+                  {cell === null ? <span className="text-muted-foreground italic">NULL</span> : cell}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableCaption className="my-2 text-xs">
+          {describeRows(rowCount)}
+          {resultSet.truncated && ` · showing the first ${MAX_ROWS}`}
+        </TableCaption>
+      </Table>
+    </div>
+  );
+};
+
+const SqlResults: React.FC<SqlResultsProps> = ({ resultSets, notices }) => (
+  <div className="space-y-3">
+    {notices.length > 0 && (
+      <pre className="p-3 rounded-lg bg-muted text-xs font-mono whitespace-pre-wrap">{notices.join('\n')}</pre>
+    )}
+    {resultSets.map((resultSet, index) =>
+      resultSet.columns.length > 0 ? (
+        <ResultTable key={index} resultSet={resultSet} />
+      ) : (
+        // Statements without a result set just report their command tag
+        <p key={index} className="text-xs font-mono text-muted-foreground">
+          {[resultSet.command, resultSet.rowCount].filter((part) => part !== undefined).join(' ')}
+        </p>
+      )
+    )}
+  </div>
+);
+
+export default SqlResults;
@@ -0,0 +1,109 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { parseTemplate, fillTemplate, loadTemplateValues, saveTemplateValues } from '@/lib/commandTemplate';
+import { Copy } from 'lucide-react';
+
+interface TemplateFillDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  command: { id: string; title: string; command: string };
+  onCopy: (filled: string) => void;
+}
+
+const TemplateFillDialog: React.FC<TemplateFillDialogProps> = ({ isOpen, onOpenChange, command, onCopy }) => {
+  const fields = useMemo(() => parseTemplate(command.command), [command.command]);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  // Start from the last values used for this command, then the defaults
+  useEffect(() => {
+    if (!isOpen) return;
+    const saved = loadTemplateValues(command.id);
+    setValues(Object.fromEntries(fields.map(field => {
+      const last = saved[field.name];
+      const usable = last !== undefined && (!field.options || field.options.includes(last));
+      return [field.name, usable ? last : field.defaultValue ?? ''];
+    })));
+  }, [isOpen, command.id, fields]);
+
+  const missing = fields.filter(field => !values[field.name]?.trim());
+  const filled = fillTemplate(command.command, values);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (missing.length > 0) return;
+
+    saveTemplateValues(command.id, values);
+    onCopy(filled);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Fill in "{command.title}"</DialogTitle>
+          <DialogDescription>
+            Only the filled-in command is copied. Values are remembered for next time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {fields.map((field, index) => (
+            <div key={field.name} className="space-y-2">
+              <Label htmlFor={`template-${field.name}`} className="font-mono">
+                {field.name}
+              </Label>
+              {field.options ? (
+                <Select
+                  value={values[field.name] ?? ''}
+                  onValueChange={(value) => setValues({ ...values, [field.name]: value })}
+                >
+                  <SelectTrigger id={`template-${field.name}`}>
+                    <SelectValue placeholder={`Choose ${field.name}`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {field.options.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  id={`template-${field.name}`}
+                  value={values[field.name] ?? ''}
+                  placeholder={field.defaultValue}
+                  onChange={(e) => setValues({ ...values, [field.name]: e.target.value })}
+                  autoFocus={index === 0}
+                  className="font-mono"
+                />
+              )}
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <Label>Preview</Label>
+            <pre className="text-sm font-mono bg-muted rounded-md p-3 whitespace-pre-wrap break-all">{filled}</pre>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={missing.length > 0} className="gap-2">
+              <Copy className="h-4 w-4" />
+              Copy command
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TemplateFillDialog;
@@ -0,0 +1,295 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { diffLines, diffTags, hasChanges, DiffLine } from '@/lib/diff';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface Version {
+  id: string;
+  version_number: number;
+  title: string;
+  content: string;
+  description: string | null;
+  tags: string[] | null;
+  created_at: string;
+}
+
+export interface VersionSnapshot {
+  id: string;
+  title: string;
+  content: string;
+  description?: string | null;
+  tags?: string[] | null;
+  updated_at: string;
+}
+
+interface VersionHistoryProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  itemType: 'note' | 'command';
+  current: VersionSnapshot;
+  onRestored?: () => void;
+}
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({
+  isOpen,
+  onOpenChange,
+  itemType,
+  current,
+  onRestored,
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<Version[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && user) {
+      fetchVersions();
+    }
+  }, [isOpen, user, current.id, current.updated_at]);
+
+  const fetchVersions = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('versions')
+        .select('id, version_number, title, content, description, tags, created_at')
+        .eq('item_id', current.id)
+        .eq('item_type', itemType)
+        .eq('user_id', user.id)
+        .order('version_number', { ascending: false });
+
+      if (error) throw error;
+
+      setVersions(data || []);
+      setSelectedId(data && data.length > 0 ? data[0].id : null);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error loading history',
+        description: (error as Error).message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (version: Version) => {
+    // Every card mounts one of these, so check the browser directly instead
+    // of subscribing each of them to the offline store
+    if (!navigator.onLine) {
+      toast({
+        variant: 'destructive',
+        title: 'Restore unavailable offline',
+        description: 'Reconnect to restore a previous version.',
+      });
+      return;
+    }
+
+    setRestoring(true);
+    try {
+      // Updating the row fires create_version_on_update, which stores the
+      // current state as a new version before the restore overwrites it.
+      const { error } = itemType === 'command'
+        ? await supabase
+            .from('commands')
+            .update({
+              title: version.title,
+              command: version.content,
+              description: version.description,
+              tags: version.tags,
+            })
+            .eq('id', current.id)
+        : await supabase
+            .from('notes')
+            .update({
+              title: version.title,
+              content: version.content,
+              tags: version.tags,
+            })
+            .eq('id', current.id);
+
+      if (error) throw error;
+
+      toast({
+        title: `Restored version ${version.version_number}`,
+        description: 'The previous state was saved to history.',
+      });
+      onRestored?.();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error restoring version',
+        description: (error as Error).message,
+      });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const selected = versions.find(version => version.id === selectedId) || null;
+  const contentLabel = itemType === 'command' ? 'Command' : 'Content';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version History
+          </DialogTitle>
+          <DialogDescription>
+            Compare earlier versions of "{current.title}" with the current one and restore any of them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <History className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p>No earlier versions yet. A version is saved every time you edit this {itemType}.</p>
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[200px_1fr] flex-1 overflow-hidden">
+            <ScrollArea className="h-[60vh] border rounded-md">
+              <div className="p-2 space-y-1">
+                {versions.map((version) => (
+                  <button
+                    key={version.id}
+                    type="button"
+                    onClick={() => setSelectedId(version.id)}
+                    className={cn(
+                      'w-full text-left p-2 rounded hover:bg-muted',
+                      version.id === selectedId && 'bg-muted'
+                    )}
+                  >
+                    <p className="text-sm font-medium">Version {version.version_number}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(version.created_at).toLocaleString()}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {selected && (
+              <ScrollArea className="h-[60vh]">
+                <div className="space-y-4 pr-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">
+                      Version {selected.version_number} → current
+                    </span>
+                    <Button
+                      size="sm"
+                      onClick={() => handleRestore(selected)}
+                      disabled={restoring}
+                      className="gap-2"
+                    >
+                      {restoring ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4" />
+                      )}
+                      Restore
+                    </Button>
+                  </div>
+
+                  <DiffSection label="Title" diff={diffLines(selected.title, current.title)} />
+                  <DiffSection
+                    label={contentLabel}
+                    diff={diffLines(selected.content, current.content)}
+                    monospace={itemType === 'command'}
+                  />
+                  {itemType === 'command' && (
+                    <DiffSection
+                      label="Description"
+                      diff={diffLines(selected.description || '', current.description || '')}
+                    />
+                  )}
+                  <TagsDiff before={selected.tags} after={current.tags} />
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const DiffSection = ({
+  label,
+  diff,
+  monospace = false,
+}: {
+  label: string;
+  diff: DiffLine[];
+  monospace?: boolean;
+}) => {
+  const changed = hasChanges(diff);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium">{label}</span>
+        {!changed && <Badge variant="outline" className="text-xs">unchanged</Badge>}
+      </div>
+      <pre className={cn('text-sm whitespace-pre-wrap rounded-md border bg-muted/30 p-2', monospace && 'font-mono')}>
+        {diff.map((line, i) => (
+          <div
+            key={i}
+            className={cn(
+              line.type === 'added' && 'bg-green-500/15 text-green-700 dark:text-green-400',
+              line.type === 'removed' && 'bg-destructive/10 text-destructive line-through'
+            )}
+          >
+            {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+            {line.value}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+};
+
+const TagsDiff = ({ before, after }: { before?: string[] | null; after?: string[] | null }) => {
+  const { added, removed, unchanged } = diffTags(before, after);
+
+  if (added.length === 0 && removed.length === 0 && unchanged.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1">
+      <span className="text-sm font-medium">Tags</span>
+      <div className="flex flex-wrap gap-1">
+        {unchanged.map(tag => (
+          <Badge key={`same-${tag}`} variant="secondary" className="text-xs">{tag}</Badge>
+        ))}
+        {added.map(tag => (
+          <Badge key={`added-${tag}`} variant="outline" className="text-xs border-green-500 text-green-700">+ {tag}</Badge>
+        ))}
+        {removed.map(tag => (
+          <Badge key={`removed-${tag}`} variant="outline" className="text-xs border-destructive text-destructive line-through">{tag}</Badge>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistory;
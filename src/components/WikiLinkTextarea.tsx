@@ -0,0 +1,146 @@
+import React, { useState, useRef } from 'react';
+import { Textarea } from '@/components/ui/textarea';
+import { FileText, Terminal } from 'lucide-react';
+import { useTitleIndex } from '@/hooks/useTitleIndex';
+import type { LinkedItem } from '@/lib/itemLinks';
+import { cn } from '@/lib/utils';
+
+interface WikiLinkTextareaProps extends Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+interface Suggestions {
+  // Where the typed title starts, just after "[[" or "[[cmd:"
+  from: number;
+  items: LinkedItem[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// An unclosed [[ before the cursor, with an optional type prefix
+const OPEN_LINK = /\[\[(?:(cmd|command|note):)?([^[\]\n]*)$/i;
+
+const WikiLinkTextarea: React.FC<WikiLinkTextareaProps> = ({ value, onChange, onKeyDown, onBlur, ...props }) => {
+  const titleIndex = useTitleIndex();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [suggestions, setSuggestions] = useState<Suggestions | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const refreshSuggestions = (text: string, cursor: number) => {
+    const match = OPEN_LINK.exec(text.slice(0, cursor));
+    if (!match || !titleIndex) {
+      setSuggestions(null);
+      return;
+    }
+
+    const prefix = match[1]?.toLowerCase();
+    const query = match[2].trim().toLowerCase();
+    const pool = [
+      ...(prefix === 'cmd' || prefix === 'command' ? [] : titleIndex.notes.values()),
+      ...(prefix === 'note' ? [] : titleIndex.commands.values()),
+    ];
+    const items = pool
+      .filter(item => item.title.toLowerCase().includes(query))
+      // Titles starting with the query first
+      .sort((a, b) => Number(!a.title.toLowerCase().startsWith(query)) - Number(!b.title.toLowerCase().startsWith(query)))
+      .slice(0, MAX_SUGGESTIONS);
+
+    setSuggestions(items.length > 0 ? { from: cursor - match[2].length, items } : null);
+    setHighlighted(0);
+  };
+
+  const applySuggestion = (item: LinkedItem) => {
+    const textarea = textareaRef.current;
+    if (!suggestions || !textarea) return;
+
+    const cursor = textarea.selectionStart;
+    const rest = value.slice(cursor);
+    const closing = rest.startsWith(']]') ? '' : ']]';
+    const next = value.slice(0, suggestions.from) + item.title + closing + rest;
+    const position = suggestions.from + item.title.length + 2;
+
+    onChange(next);
+    setSuggestions(null);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setHighlighted((highlighted + 1) % suggestions.items.length);
+        return;
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setHighlighted((highlighted - 1 + suggestions.items.length) % suggestions.items.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        applySuggestion(suggestions.items[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        // Keep the surrounding dialog open
+        e.preventDefault();
+        e.stopPropagation();
+        setSuggestions(null);
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        {...props}
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          refreshSuggestions(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={(e) => {
+          setSuggestions(null);
+          onBlur?.(e);
+        }}
+      />
+
+      {suggestions && (
+        <ul className="absolute left-0 right-0 top-full z-50 mt-1 rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.items.map((item, index) => (
+            <li
+              key={`${item.type}-${item.id}`}
+              // Keep focus in the textarea so the blur handler doesn't close the list first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                applySuggestion(item);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                'flex items-center gap-2 rounded-sm px-2 py-1.5 text-sm cursor-pointer',
+                index === highlighted && 'bg-accent text-accent-foreground'
+              )}
+            >
+              {item.type === 'note' ? (
+                <FileText className="h-3 w-3 text-blue-500 flex-shrink-0" />
+              ) : (
+                <Terminal className="h-3 w-3 text-green-500 flex-shrink-0" />
+              )}
+              <span className="truncate">{item.title}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default WikiLinkTextarea;
@@ -0,0 +1,21 @@
+import { useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useOfflineStorage } from '@/hooks/useOfflineStorage';
+import { recordCommandUsage, UsageEvent } from '@/lib/commandUsage';
+
+// Record that a command was copied or run. Failures only reach the console:
+// a lost usage count should never get in the way of the copy itself.
+export const useCommandUsage = () => {
+  const { user } = useAuth();
+  const { isOnline, addPendingAction, cacheUsageEvent } = useOfflineStorage();
+
+  return useCallback(async (commandId: string, event: UsageEvent) => {
+    if (!user) return;
+
+    try {
+      await recordCommandUsage({ userId: user.id, commandId, event, isOnline, addPendingAction, cacheUsageEvent });
+    } catch (error) {
+      console.error('Error recording command usage:', error);
+    }
+  }, [user, isOnline, addPendingAction, cacheUsageEvent]);
+};
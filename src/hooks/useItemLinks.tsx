@@ -0,0 +1,91 @@
+import { useCallback, useRef, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useOfflineStorage } from '@/hooks/useOfflineStorage';
+import {
+  fetchOutgoingLinks,
+  resolveLinkTargets,
+  withRelations,
+  saveItemLinks,
+  DEFAULT_RELATION,
+  ItemType,
+  NoteLink,
+  SelectedLink,
+} from '@/lib/itemLinks';
+
+// Link editing state shared by the note and command editors: load the links
+// an item has, let LinkSelector change them, then save the difference.
+// Saving before an item's links have loaded would diff against nothing and
+// copy or drop links, so editors hold submit until linksLoaded.
+export const useItemLinks = (itemType: ItemType) => {
+  const { user } = useAuth();
+  const { isOnline, addPendingAction } = useOfflineStorage();
+  const [selectedLinks, setSelectedLinks] = useState<SelectedLink[]>([]);
+  const [existingLinks, setExistingLinks] = useState<NoteLink[]>([]);
+  // 'failed' keeps the links out of the save; the item itself still saves
+  const [linksStatus, setLinksStatus] = useState<'loading' | 'loaded' | 'failed'>('loaded');
+  // Only the latest load may fill the state, if the item changes mid-load
+  const latestLoad = useRef(0);
+
+  const loadLinks = useCallback(async (itemId: string) => {
+    const load = ++latestLoad.current;
+    setSelectedLinks([]);
+    setExistingLinks([]);
+    setLinksStatus('loading');
+    if (!user) return;
+
+    try {
+      const links = await fetchOutgoingLinks(user.id, itemId, itemType, isOnline);
+      const items = withRelations(
+        await resolveLinkTargets(user.id, links, isOnline),
+        links,
+        link => ({ id: link.to_id, type: link.to_type })
+      );
+      if (load !== latestLoad.current) return;
+
+      setExistingLinks(links);
+      setSelectedLinks(items.map(item => ({
+        id: item.id,
+        title: item.title,
+        type: item.type,
+        relation: item.relation ?? DEFAULT_RELATION,
+      })));
+      setLinksStatus('loaded');
+    } catch (error) {
+      console.error('Error loading existing links:', error);
+      if (load === latestLoad.current) setLinksStatus('failed');
+    }
+  }, [user, itemType, isOnline]);
+
+  const resetLinks = useCallback(() => {
+    latestLoad.current++;
+    setSelectedLinks([]);
+    setExistingLinks([]);
+    setLinksStatus('loaded');
+  }, []);
+
+  // `selected` overrides the selector state, e.g. to add links found in a note body
+  const saveLinks = useCallback(async (fromId: string, selected: SelectedLink[] = selectedLinks) => {
+    if (!user) return;
+    if (linksStatus !== 'loaded') throw new Error('The existing links have not loaded, so they were left as they were');
+
+    await saveItemLinks({
+      userId: user.id,
+      fromId,
+      fromType: itemType,
+      existing: existingLinks,
+      selected,
+      isOnline,
+      addPendingAction,
+    });
+  }, [user, itemType, existingLinks, selectedLinks, linksStatus, isOnline, addPendingAction]);
+
+  return {
+    selectedLinks,
+    setSelectedLinks,
+    existingLinks,
+    linksLoaded: linksStatus !== 'loading',
+    loadLinks,
+    resetLinks,
+    saveLinks,
+  };
+};
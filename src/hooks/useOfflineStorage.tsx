@@ -1,24 +1,263 @@
-import { useState, useEffect } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { PendingAction, recordKey, replayQueue } from '@/lib/syncEngine';
+import {
+  deleteRecord,
+  getAllRecords,
+  getMeta,
+  getRecord,
+  getStorageUsage,
+  putRecord,
+  replaceRecords,
+  setMeta,
+  StorageUsage,
+} from '@/lib/offlineDb';
+import { applyUsageEvent, CommandUsage, UsageEvent } from '@/lib/commandUsage';
+import type { Collection } from '@/lib/collections';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+
+export type { PendingAction } from '@/lib/syncEngine';
 
 interface OfflineData {
-  commands: any[];
-  notes: any[];
+  commands: Tables<'commands'>[];
+  notes: Tables<'notes'>[];
+  noteLinks: Tables<'note_links'>[];
+  commandUsage: CommandUsage[];
+  collections: Collection[];
   lastSync: string;
 }
 
-interface PendingAction {
-  id: string;
-  type: 'create' | 'update' | 'delete';
-  table: 'commands' | 'notes';
-  data: any;
-  timestamp: string;
+interface SyncProgress {
+  done: number;
+  total: number;
 }
 
-export const useOfflineStorage = () => {
-  const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const [pendingActions, setPendingActions] = useState<PendingAction[]>([]);
+interface OfflineStorageContextType {
+  isOnline: boolean;
+  pendingActions: PendingAction[];
+  failedActions: PendingAction[];
+  conflictedActions: PendingAction[];
+  syncing: boolean;
+  syncProgress: SyncProgress;
+  lastSyncedAt: string | null;
+  storageUsage: StorageUsage | null;
+  // Bumped whenever the cache changes, for views derived from it
+  cacheVersion: number;
+  // Work on an in-memory copy of the IndexedDB cache, so both stay synchronous
+  cacheData: (
+    commands: Tables<'commands'>[],
+    notes: Tables<'notes'>[],
+    noteLinks?: Tables<'note_links'>[],
+    commandUsage?: CommandUsage[],
+    collections?: Collection[]
+  ) => void;
+  getCachedData: () => OfflineData | null;
+  addPendingAction: (action: Omit<PendingAction, 'id' | 'timestamp'>) => void;
+  // Adds a usage event that reached the server directly to the cached totals
+  cacheUsageEvent: (event: TablesInsert<'command_usage_events'>) => void;
+  syncPendingActions: () => Promise<void>;
+  clearPendingActions: () => void;
+  discardPendingAction: (id: string) => void;
+  resolveConflict: (id: string, merged: Record<string, unknown>) => void;
+}
+
+const PENDING_ACTIONS_KEY = 'devnotes-pending-actions';
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+const OfflineStorageContext = createContext<OfflineStorageContextType | undefined>(undefined);
+
+const saveToLocalStorage = (key: string, data: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(data));
+  } catch (error) {
+    console.error('Failed to save to localStorage:', error);
+  }
+};
+
+// Events aren't cached themselves; they add to the command's totals
+const addUsageToCache = async (event: TablesInsert<'command_usage_events'>) => {
+  const usage = await getRecord<CommandUsage>('command_usage', event.command_id);
+  await putRecord('command_usage', applyUsageEvent(usage, event.command_id, event.event as UsageEvent, event.used_at));
+};
+
+// Reflect a queued change in the local cache right away so offline reads
+// (lists, links, detail views) see it before it reaches the server
+const applyActionToCache = async (action: PendingAction) => {
+  const { table, type, data } = action;
+
+  try {
+    if (table === 'command_usage_events') {
+      await addUsageToCache(data as TablesInsert<'command_usage_events'>);
+      return;
+    }
+
+    if (type === 'delete') {
+      await deleteRecord(table, data.id);
+      return;
+    }
+
+    const existing = type === 'update' ? await getRecord(table, data.id) : undefined;
+    const now = new Date().toISOString();
+    const timestamps = table === 'note_links'
+      ? { created_at: now }
+      : { created_at: now, updated_at: now };
+
+    await putRecord(table, { ...timestamps, ...existing, ...data });
+  } catch (error) {
+    console.error('Failed to apply pending change to offline cache:', error);
+  }
+};
+
+const byNewest = (a: { created_at: string }, b: { created_at: string }) =>
+  b.created_at.localeCompare(a.created_at);
+
+const readCache = async (): Promise<OfflineData | null> => {
+  try {
+    const lastSync = await getMeta<string>('lastSync');
+    if (!lastSync) return null;
+
+    const [commands, notes, noteLinks, commandUsage, collections] = await Promise.all([
+      getAllRecords<Tables<'commands'>>('commands'),
+      getAllRecords<Tables<'notes'>>('notes'),
+      getAllRecords<Tables<'note_links'>>('note_links'),
+      getAllRecords<CommandUsage>('command_usage'),
+      getAllRecords<Collection>('collections'),
+    ]);
+
+    return {
+      commands: commands.sort(byNewest),
+      notes: notes.sort(byNewest),
+      noteLinks,
+      commandUsage,
+      collections,
+      lastSync,
+    };
+  } catch (error) {
+    console.error('Failed to read offline cache:', error);
+    return null;
+  }
+};
+
+const getFromLocalStorage = (key: string) => {
+  try {
+    const data = localStorage.getItem(key);
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.error('Failed to get from localStorage:', error);
+    return null;
+  }
+};
+
+export const OfflineStorageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
   const { toast } = useToast();
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingActions, setPendingActions] = useState<PendingAction[]>(
+    () => getFromLocalStorage(PENDING_ACTIONS_KEY) || []
+  );
+  const [syncing, setSyncing] = useState(false);
+  const [syncProgress, setSyncProgress] = useState<SyncProgress>({ done: 0, total: 0 });
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [cacheVersion, setCacheVersion] = useState(0);
+  // What getCachedData returns. It is read from IndexedDB before anything
+  // renders and reloaded after each write, which go one at a time so a
+  // reload never sees half of one.
+  const snapshot = useRef<OfflineData | null>(null);
+  const [snapshotLoaded, setSnapshotLoaded] = useState(false);
+  const cacheWrites = useRef<Promise<unknown>>(Promise.resolve());
+
+  // The queue is read from async sync code and from window event handlers,
+  // so keep a ref alongside the state to avoid working on a stale copy.
+  const pendingRef = useRef<PendingAction[]>(pendingActions);
+  const syncingRef = useRef(false);
+  const retryTimer = useRef<ReturnType<typeof setTimeout>>();
+  const retryCount = useRef(0);
+
+  const updateQueue = useCallback((update: (queue: PendingAction[]) => PendingAction[]) => {
+    const next = update(pendingRef.current);
+    pendingRef.current = next;
+    setPendingActions(next);
+    if (next.length > 0) saveToLocalStorage(PENDING_ACTIONS_KEY, next);
+    else localStorage.removeItem(PENDING_ACTIONS_KEY);
+  }, []);
+
+  const syncPendingActions = useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine || !user) return;
+
+    const queue = pendingRef.current;
+    if (queue.length === 0) return;
+
+    clearTimeout(retryTimer.current);
+    syncingRef.current = true;
+    setSyncing(true);
+    setSyncProgress({ done: 0, total: queue.length });
+
+    try {
+      const result = await replayQueue(queue, {
+        onActionSynced: (action, updatedAt) => {
+          // Only drop an action once the server has confirmed it, and rebase
+          // later edits of the same item onto the row we just wrote
+          updateQueue(current => current
+            .filter(a => a.id !== action.id)
+            .map(a =>
+              updatedAt && a.baseUpdatedAt && recordKey(a) === recordKey(action)
+                ? { ...a, baseUpdatedAt: updatedAt }
+                : a
+            ));
+          setSyncProgress(progress => ({ ...progress, done: progress.done + 1 }));
+        },
+        onActionFailed: (action, error) => {
+          updateQueue(current => current.map(a =>
+            a.id === action.id
+              ? { ...a, attempts: (a.attempts || 0) + 1, lastError: error }
+              : a
+          ));
+          setSyncProgress(progress => ({ ...progress, done: progress.done + 1 }));
+        },
+        onConflict: (action, server) => {
+          updateQueue(current => current.map(a =>
+            a.id === action.id ? { ...a, conflict: server, lastError: undefined } : a
+          ));
+          setSyncProgress(progress => ({ ...progress, done: progress.done + 1 }));
+        },
+      });
+
+      if (result.synced.length > 0) {
+        setLastSyncedAt(new Date().toISOString());
+      }
+
+      if (result.conflicts.length > 0) {
+        toast({
+          title: 'Sync conflict',
+          description: `${result.conflicts.length} item${result.conflicts.length === 1 ? ' was' : 's were'} also changed elsewhere. Review and merge to finish syncing.`,
+          variant: 'destructive',
+        });
+      }
+
+      if (result.failed.length === 0) {
+        retryCount.current = 0;
+        if (result.synced.length === 0) return;
+        toast({
+          title: 'Sync complete',
+          description: `${result.synced.length} change${result.synced.length === 1 ? '' : 's'} synced.`,
+        });
+      } else {
+        const delay = Math.min(30000 * 2 ** retryCount.current, MAX_RETRY_DELAY);
+        retryCount.current++;
+        retryTimer.current = setTimeout(() => syncPendingActions(), delay);
+        toast({
+          title: 'Sync failed',
+          description: `${result.failed.length} change${result.failed.length === 1 ? '' : 's'} could not be synced. Will retry automatically.`,
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  }, [user, toast, updateQueue]);
 
   useEffect(() => {
     const handleOnline = () => {
@@ -42,100 +281,156 @@ export const useOfflineStorage = () => {
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
 
-    // Load pending actions from localStorage
-    loadPendingActions();
-
     return () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
-  }, []);
+  }, [toast, syncPendingActions]);
 
-  const saveToLocalStorage = (key: string, data: any) => {
-    try {
-      localStorage.setItem(key, JSON.stringify(data));
-    } catch (error) {
-      console.error('Failed to save to localStorage:', error);
-    }
-  };
+  // Flush anything left over from a previous session once we know who is signed in
+  useEffect(() => {
+    if (user && navigator.onLine) syncPendingActions();
+    return () => clearTimeout(retryTimer.current);
+  }, [user, syncPendingActions]);
 
-  const getFromLocalStorage = (key: string) => {
+  const refreshStorageUsage = useCallback(async () => {
     try {
-      const data = localStorage.getItem(key);
-      return data ? JSON.parse(data) : null;
+      setStorageUsage(await getStorageUsage());
     } catch (error) {
-      console.error('Failed to get from localStorage:', error);
-      return null;
+      console.error('Failed to estimate storage usage:', error);
     }
-  };
+  }, []);
+
+  useEffect(() => {
+    refreshStorageUsage();
+  }, [refreshStorageUsage]);
+
+  useEffect(() => {
+    readCache().then(data => {
+      snapshot.current = data;
+      setSnapshotLoaded(true);
+    });
+  }, []);
+
+  const writeCache = useCallback(<T,>(write: () => Promise<T>): Promise<T> => {
+    const done = cacheWrites.current.then(write);
+    cacheWrites.current = done.catch(() => undefined);
+    return done;
+  }, []);
+
+  // For writes made record by record, whose result only IndexedDB has
+  const reloadSnapshot = useCallback(async () => {
+    snapshot.current = await writeCache(readCache);
+    setCacheVersion(version => version + 1);
+  }, [writeCache]);
 
-  const cacheData = (commands: any[], notes: any[]) => {
-    const offlineData: OfflineData = {
-      commands,
-      notes,
-      lastSync: new Date().toISOString(),
+  const cacheData = useCallback((
+    commands: Tables<'commands'>[],
+    notes: Tables<'notes'>[],
+    noteLinks?: Tables<'note_links'>[],
+    commandUsage?: CommandUsage[],
+    collections?: Collection[]
+  ) => {
+    const previous = snapshot.current;
+    const lastSync = new Date().toISOString();
+    snapshot.current = {
+      commands: [...commands].sort(byNewest),
+      notes: [...notes].sort(byNewest),
+      noteLinks: noteLinks ?? previous?.noteLinks ?? [],
+      commandUsage: commandUsage ?? previous?.commandUsage ?? [],
+      collections: collections ?? previous?.collections ?? [],
+      lastSync,
     };
-    saveToLocalStorage('devnotes-offline-data', offlineData);
-  };
+    setCacheVersion(version => version + 1);
 
-  const getCachedData = (): OfflineData | null => {
-    return getFromLocalStorage('devnotes-offline-data');
-  };
+    writeCache(async () => {
+      await Promise.all([
+        replaceRecords('commands', commands),
+        replaceRecords('notes', notes),
+        noteLinks ? replaceRecords('note_links', noteLinks) : Promise.resolve(),
+        commandUsage ? replaceRecords('command_usage', commandUsage) : Promise.resolve(),
+        collections ? replaceRecords('collections', collections) : Promise.resolve(),
+      ]);
+      await setMeta('lastSync', lastSync);
+    })
+      .then(refreshStorageUsage)
+      .catch(error => console.error('Failed to cache offline data:', error));
+  }, [writeCache, refreshStorageUsage]);
+
+  const getCachedData = useCallback(() => snapshot.current, []);
 
-  const addPendingAction = (action: Omit<PendingAction, 'id' | 'timestamp'>) => {
+  const addPendingAction = useCallback((action: Omit<PendingAction, 'id' | 'timestamp'>) => {
     const newAction: PendingAction = {
       ...action,
       id: crypto.randomUUID(),
       timestamp: new Date().toISOString(),
     };
 
-    const updated = [...pendingActions, newAction];
-    setPendingActions(updated);
-    saveToLocalStorage('devnotes-pending-actions', updated);
-  };
+    updateQueue(current => [...current, newAction]);
+    writeCache(() => applyActionToCache(newAction)).then(reloadSnapshot);
+  }, [updateQueue, writeCache, reloadSnapshot]);
 
-  const loadPendingActions = () => {
-    const pending = getFromLocalStorage('devnotes-pending-actions') || [];
-    setPendingActions(pending);
-  };
+  const cacheUsageEvent = useCallback((event: TablesInsert<'command_usage_events'>) => {
+    writeCache(() => addUsageToCache(event))
+      .then(reloadSnapshot)
+      .catch(error => console.error('Failed to add usage to offline cache:', error));
+  }, [writeCache, reloadSnapshot]);
 
-  const clearPendingActions = () => {
-    setPendingActions([]);
-    localStorage.removeItem('devnotes-pending-actions');
-  };
+  const clearPendingActions = useCallback(() => {
+    updateQueue(() => []);
+  }, [updateQueue]);
 
-  const syncPendingActions = async () => {
-    if (pendingActions.length === 0) return;
+  const discardPendingAction = useCallback((id: string) => {
+    updateQueue(current => current.filter(action => action.id !== id));
+  }, [updateQueue]);
 
-    try {
-      // This would implement actual sync logic with Supabase
-      console.log('Syncing pending actions:', pendingActions);
-      
-      // For now, just clear them after a delay to simulate sync
-      setTimeout(() => {
-        clearPendingActions();
-        toast({
-          title: 'Sync complete',
-          description: 'All changes have been synced.',
-        });
-      }, 2000);
-    } catch (error) {
-      console.error('Sync failed:', error);
-      toast({
-        title: 'Sync failed',
-        description: 'Will retry automatically.',
-        variant: 'destructive',
-      });
-    }
-  };
+  const resolveConflict = useCallback((id: string, merged: Record<string, unknown>) => {
+    // Re-queue the merged result against the server row it was merged with;
+    // if that row moves on again the engine will flag a fresh conflict.
+    updateQueue(current => current.map(action =>
+      action.id === id && action.conflict
+        ? {
+            ...action,
+            data: { ...action.data, ...merged },
+            baseUpdatedAt: action.conflict.updated_at as string,
+            conflict: undefined,
+            lastError: undefined,
+          }
+        : action
+    ));
+    syncPendingActions();
+  }, [updateQueue, syncPendingActions]);
 
-  return {
+  const value = {
     isOnline,
     pendingActions,
+    failedActions: pendingActions.filter(action => action.lastError),
+    conflictedActions: pendingActions.filter(action => action.conflict),
+    syncing,
+    syncProgress,
+    lastSyncedAt,
+    storageUsage,
+    cacheVersion,
     cacheData,
     getCachedData,
     addPendingAction,
+    cacheUsageEvent,
     syncPendingActions,
     clearPendingActions,
+    discardPendingAction,
+    resolveConflict,
   };
-};
\ No newline at end of file
+
+  // Only takes a moment, and spares every reader from handling a cache not read yet
+  if (!snapshotLoaded) return null;
+
+  return <OfflineStorageContext.Provider value={value}>{children}</OfflineStorageContext.Provider>;
+};
+
+export const useOfflineStorage = () => {
+  const context = useContext(OfflineStorageContext);
+  if (context === undefined) {
+    throw new Error('useOfflineStorage must be used within an OfflineStorageProvider');
+  }
+  return context;
+};
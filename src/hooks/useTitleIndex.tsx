@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import { useOfflineStorage } from '@/hooks/useOfflineStorage';
+import { loadTitleIndex, TitleIndex } from '@/lib/wikiLinks';
+
+// Every rendered note needs the same index, so share one load per cache version
+let shared: { version: number; promise: Promise<TitleIndex> } | null = null;
+
+const getTitleIndex = (version: number) => {
+  if (!shared || shared.version !== version) {
+    shared = { version, promise: loadTitleIndex() };
+  }
+  return shared.promise;
+};
+
+export const useTitleIndex = (): TitleIndex | null => {
+  const { cacheVersion } = useOfflineStorage();
+  const [index, setIndex] = useState<TitleIndex | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getTitleIndex(cacheVersion)
+      .then(result => {
+        if (!cancelled) setIndex(result);
+      })
+      .catch(error => console.error('Failed to load note titles:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cacheVersion]);
+
+  return index;
+};
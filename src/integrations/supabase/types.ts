@@ -14,38 +14,122 @@ export type Database = {
   }
   public: {
     Tables: {
+      collections: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          parent_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collections_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      command_usage_events: {
+        Row: {
+          command_id: string
+          event: string
+          id: string
+          used_at: string
+          user_id: string
+        }
+        Insert: {
+          command_id: string
+          event: string
+          id?: string
+          used_at?: string
+          user_id: string
+        }
+        Update: {
+          command_id?: string
+          event?: string
+          id?: string
+          used_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "command_usage_events_command_id_fkey"
+            columns: ["command_id"]
+            isOneToOne: false
+            referencedRelation: "commands"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       commands: {
         Row: {
+          collection_id: string | null
           command: string
           created_at: string
           description: string | null
           id: string
+          risk_findings: Json
+          run_inputs: Json | null
           tags: string[] | null
           title: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          collection_id?: string | null
           command: string
           created_at?: string
           description?: string | null
           id?: string
+          risk_findings?: Json
+          run_inputs?: Json | null
           tags?: string[] | null
           title: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          collection_id?: string | null
           command?: string
           created_at?: string
           description?: string | null
           id?: string
+          risk_findings?: Json
+          run_inputs?: Json | null
           tags?: string[] | null
           title?: string
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "commands_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       note_links: {
         Row: {
@@ -53,6 +137,7 @@ export type Database = {
           from_id: string
           from_type: string
           id: string
+          relation: string
           to_id: string
           to_type: string
           user_id: string
@@ -62,6 +147,7 @@ export type Database = {
           from_id: string
           from_type: string
           id?: string
+          relation?: string
           to_id: string
           to_type: string
           user_id: string
@@ -71,6 +157,7 @@ export type Database = {
           from_id?: string
           from_type?: string
           id?: string
+          relation?: string
           to_id?: string
           to_type?: string
           user_id?: string
@@ -79,6 +166,7 @@ export type Database = {
       }
       notes: {
         Row: {
+          collection_id: string | null
           content: string
           created_at: string
           id: string
@@ -88,6 +176,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          collection_id?: string | null
           content: string
           created_at?: string
           id?: string
@@ -97,6 +186,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          collection_id?: string | null
           content?: string
           created_at?: string
           id?: string
@@ -105,7 +195,15 @@ export type Database = {
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "notes_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       versions: {
         Row: {
@@ -151,10 +249,59 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      command_usage: {
+        Row: {
+          command_id: string | null
+          copy_count: number | null
+          last_used_at: string | null
+          run_count: number | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "command_usage_events_command_id_fkey"
+            columns: ["command_id"]
+            isOneToOne: false
+            referencedRelation: "commands"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      replace_item_links: {
+        Args: {
+          p_from_id: string
+          p_from_type: string
+          p_links: Json
+        }
+        Returns: {
+          created_at: string
+          from_id: string
+          from_type: string
+          id: string
+          to_id: string
+          to_type: string
+          user_id: string
+        }[]
+      }
+      search_items: {
+        Args: {
+          search_query: string
+          page_size?: number
+          page_offset?: number
+        }
+        Returns: {
+          item_id: string
+          item_type: string
+          title: string
+          title_highlight: string
+          snippet: string
+          tags: string[] | null
+          rank: number
+          total_count: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
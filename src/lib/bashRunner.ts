@@ -0,0 +1,126 @@
+// Runs Bash scripts in the browser with just-bash, a bash interpreter written
+// in TypeScript with coreutils over an in-memory filesystem. Scripts can't
+// reach the real network, filesystem or processes, which makes it safe to
+// dry-run saved commands. Each run starts from a fresh filesystem.
+
+import { EMPTY_INPUTS, ExecutionResult, KILLED_EXIT_CODE, RunInputs, RunOptions, stoppedResult } from './execution';
+
+export interface BashWorkerRequest {
+  code: string;
+  inputs: RunInputs;
+  timeoutMs: number;
+  maxOutputLength: number;
+}
+
+// Output arrives a command at a time, as each one finishes
+export type BashWorkerMessage =
+  | { type: 'stdout' | 'stderr'; text: string }
+  | { type: 'done'; exitCode: number }
+  | { type: 'failed'; message: string };
+
+export interface BashRunOptions extends RunOptions {
+  timeoutMs?: number;
+  // Characters across stdout and stderr; the script is stopped past it
+  maxOutputLength?: number;
+}
+
+const DEFAULT_OPTIONS = {
+  inputs: EMPTY_INPUTS,
+  timeoutMs: 10000,
+  maxOutputLength: 64 * 1024,
+};
+
+// The interpreter enforces the time limit itself; this only catches a worker
+// that stops responding altogether
+const WORKER_GRACE_MS = 2000;
+
+// e.g. "bash: syntax error: Parse error at 3:17: ..."
+const PARSE_ERROR = /Parse error at (\d+):\d+/;
+
+let worker: Worker | null = null;
+
+const getWorker = () => {
+  worker ??= new Worker(new URL('./bashWorker.ts', import.meta.url), { type: 'module' });
+  return worker;
+};
+
+const resetWorker = () => {
+  worker?.terminate();
+  worker = null;
+};
+
+export const runBash = (code: string, options: BashRunOptions = {}): Promise<ExecutionResult> => {
+  const { inputs, timeoutMs, maxOutputLength, onOutput, signal } = { ...DEFAULT_OPTIONS, ...options };
+  if (signal?.aborted) return Promise.resolve(stoppedResult());
+  const target = getWorker();
+  const startedAt = performance.now();
+
+  return new Promise((resolve, reject) => {
+    let stdout = '';
+    let stderr = '';
+
+    const settle = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', handleAbort);
+      target.onmessage = null;
+      target.onerror = null;
+    };
+
+    const executionTime = () => Math.round(performance.now() - startedAt);
+
+    const stop = (stopReason: string) => {
+      settle();
+      resetWorker();
+      resolve({ output: stdout, error: stderr || undefined, executionTime: executionTime(), exitCode: KILLED_EXIT_CODE, stopReason });
+    };
+
+    const timer = setTimeout(() => stop(`Execution timeout (${timeoutMs / 1000} seconds)`), timeoutMs + WORKER_GRACE_MS);
+
+    const handleAbort = () => {
+      settle();
+      resetWorker();
+      resolve(stoppedResult(stdout, stderr, executionTime()));
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    target.onmessage = (event: MessageEvent<BashWorkerMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'stdout':
+        case 'stderr': {
+          const room = maxOutputLength - stdout.length - stderr.length;
+          const text = message.text.slice(0, Math.max(room, 0));
+          if (message.type === 'stdout') stdout += text;
+          else stderr += text;
+          if (text) onOutput?.({ stream: message.type, text });
+          if (message.text.length > room) stop('Output limit reached; the program was stopped');
+          break;
+        }
+        case 'done': {
+          settle();
+          const parseError = stderr.match(PARSE_ERROR);
+          resolve({
+            output: stdout,
+            error: stderr || undefined,
+            executionTime: executionTime(),
+            exitCode: message.exitCode,
+            errorLine: parseError ? Number(parseError[1]) : undefined,
+          });
+          break;
+        }
+        case 'failed':
+          settle();
+          resetWorker();
+          reject(new Error(`The Bash sandbox failed: ${message.message}`));
+          break;
+      }
+    };
+    target.onerror = (event) => {
+      settle();
+      resetWorker();
+      reject(new Error(event.message || 'The Bash worker crashed'));
+    };
+
+    target.postMessage({ code, inputs, timeoutMs, maxOutputLength } satisfies BashWorkerRequest);
+  });
+};
@@ -0,0 +1,72 @@
+/// <reference lib="webworker" />
+// Runs each Bash script it is sent in a new just-bash shell, so files and
+// variables never carry over from one run to the next. The script is saved
+// as main.sh and run the way a shell would run a file, so $0, $1 and "$@"
+// hold its arguments.
+//
+// just-bash hands back a command's output only once the whole script is
+// done. To pass output on as it is written, the script's first line points
+// its stdout and stderr at two files with exec, and writes to those files are
+// posted as they happen: one message per command, in the order they ran.
+
+import { Bash, InMemoryFs } from 'just-bash';
+import type { BashWorkerMessage, BashWorkerRequest } from './bashRunner';
+
+const HOME = '/home/user';
+const OUTPUT_DIR = '/run/output';
+const OUTPUT_FILES: Record<string, 'stdout' | 'stderr'> = {
+  [`${OUTPUT_DIR}/stdout`]: 'stdout',
+  [`${OUTPUT_DIR}/stderr`]: 'stderr',
+};
+
+// On the first line, so errors still report the lines of the script as written
+const REDIRECT_OUTPUT = `exec 1>>${OUTPUT_DIR}/stdout 2>>${OUTPUT_DIR}/stderr; `;
+
+const post = (message: BashWorkerMessage) => self.postMessage(message);
+
+const decoder = new TextDecoder();
+
+// Posts what is appended to the output files instead of keeping it
+class StreamingFs extends InMemoryFs {
+  lastPosted = { stdout: '', stderr: '' };
+
+  async appendFile(...[path, content, options]: Parameters<InMemoryFs['appendFile']>) {
+    const stream = OUTPUT_FILES[path];
+    if (!stream) return super.appendFile(path, content, options);
+    const text = typeof content === 'string' ? content : decoder.decode(content);
+    if (text) this.post(stream, text);
+  }
+
+  post(stream: 'stdout' | 'stderr', text: string) {
+    this.lastPosted[stream] = text;
+    post({ type: stream, text });
+  }
+}
+
+self.onmessage = async (event: MessageEvent<BashWorkerRequest>) => {
+  const { code, inputs, timeoutMs, maxOutputLength } = event.data;
+
+  try {
+    const fs = new StreamingFs();
+    const bash = new Bash({
+      fs,
+      cwd: HOME,
+      env: { HOME, USER: 'user', ...inputs.env },
+      executionLimits: { maxExecutionTimeMs: timeoutMs, maxOutputSize: maxOutputLength },
+    });
+    await bash.fs.mkdir('/tmp', { recursive: true });
+    await bash.fs.mkdir(OUTPUT_DIR, { recursive: true });
+    await bash.fs.writeFile(`${HOME}/main.sh`, REDIRECT_OUTPUT + code);
+
+    // args are passed as they are, without being parsed by the shell again
+    const result = await bash.exec('bash main.sh', { args: inputs.args, stdin: inputs.stdin });
+    // Only what the redirect didn't catch, such as a parse error. When the
+    // time limit cuts the script off, its message has been posted already.
+    for (const stream of ['stdout', 'stderr'] as const) {
+      if (result[stream] && result[stream] !== fs.lastPosted[stream]) fs.post(stream, result[stream]);
+    }
+    post({ type: 'done', exitCode: result.exitCode });
+  } catch (error) {
+    post({ type: 'failed', message: (error as Error).message });
+  }
+};
@@ -0,0 +1,11 @@
+// Stands in for node:zlib in the browser build of just-bash (see
+// vite.config.ts). Only its gzip, gunzip and zcat commands need it, and they
+// report this error instead of compressing.
+
+const unavailable = (): never => {
+  throw new Error('gzip is not available in the browser sandbox');
+};
+
+export const gzipSync = unavailable;
+export const gunzipSync = unavailable;
+export const constants = {};
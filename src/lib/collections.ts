@@ -0,0 +1,208 @@
+// Nested collections that commands and notes are filed into. An item lives in
+// at most one collection; tags still work across them.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { PendingAction } from '@/lib/syncEngine';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Collection = Tables<'collections'>;
+
+export interface CollectionNode {
+  collection: Collection;
+  children: CollectionNode[];
+  // Items filed directly in this collection, and in it or any subcollection
+  count: number;
+  total: number;
+}
+
+// What the list is showing: everything, items not in any collection, or one
+// collection together with its subcollections
+export type CollectionFilter = { kind: 'all' } | { kind: 'unfiled' } | { kind: 'collection'; id: string };
+
+interface FiledItem {
+  collection_id?: string | null;
+}
+
+type QueueAction = (action: Omit<PendingAction, 'id' | 'timestamp'>) => void;
+
+interface OfflineOptions {
+  isOnline: boolean;
+  addPendingAction: QueueAction;
+}
+
+const byName = (a: Collection, b: Collection) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+
+// Collections are only reachable from the root, so ones whose parent is gone
+// (deleted offline, not yet cascaded by the server) drop out with it
+export const buildCollectionTree = (collections: Collection[], items: FiledItem[]): CollectionNode[] => {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    if (item.collection_id) counts.set(item.collection_id, (counts.get(item.collection_id) ?? 0) + 1);
+  }
+
+  const childrenOf = new Map<string | null, Collection[]>();
+  for (const collection of collections) {
+    const siblings = childrenOf.get(collection.parent_id) ?? [];
+    siblings.push(collection);
+    childrenOf.set(collection.parent_id, siblings);
+  }
+
+  const build = (parentId: string | null): CollectionNode[] =>
+    (childrenOf.get(parentId) ?? []).sort(byName).map(collection => {
+      const children = build(collection.id);
+      const count = counts.get(collection.id) ?? 0;
+      return {
+        collection,
+        children,
+        count,
+        total: count + children.reduce((sum, child) => sum + child.total, 0),
+      };
+    });
+
+  return build(null);
+};
+
+// The collection and everything nested under it
+export const collectionScope = (collections: Collection[], id: string): Set<string> => {
+  const scope = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const collection of collections) {
+      if (collection.parent_id && scope.has(collection.parent_id) && !scope.has(collection.id)) {
+        scope.add(collection.id);
+        grew = true;
+      }
+    }
+  }
+  return scope;
+};
+
+// Root first, e.g. [Kubernetes, Debugging]
+export const collectionPath = (collections: Collection[], id: string): Collection[] => {
+  const byId = new Map(collections.map(collection => [collection.id, collection]));
+  const path: Collection[] = [];
+  let current = byId.get(id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return path;
+};
+
+// Items filed in a collection that no longer exists count as unfiled
+export const filterByCollection = <T extends FiledItem>(
+  items: T[],
+  collections: Collection[],
+  filter: CollectionFilter
+): T[] => {
+  if (filter.kind === 'all') return items;
+
+  if (filter.kind === 'unfiled') {
+    const known = new Set(collections.map(collection => collection.id));
+    return items.filter(item => !item.collection_id || !known.has(item.collection_id));
+  }
+
+  const scope = collectionScope(collections, filter.id);
+  return items.filter(item => item.collection_id && scope.has(item.collection_id));
+};
+
+export const fetchCollections = async (userId: string): Promise<Collection[]> => {
+  const { data, error } = await supabase
+    .from('collections')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return data || [];
+};
+
+interface CreateCollectionOptions extends OfflineOptions {
+  userId: string;
+  name: string;
+  parentId: string | null;
+}
+
+export const createCollection = async ({
+  userId,
+  name,
+  parentId,
+  isOnline,
+  addPendingAction,
+}: CreateCollectionOptions): Promise<Collection> => {
+  const now = new Date().toISOString();
+  const collection: Collection = {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    parent_id: parentId,
+    name,
+    created_at: now,
+    updated_at: now,
+  };
+
+  if (!isOnline) {
+    addPendingAction({ type: 'create', table: 'collections', data: collection });
+    return collection;
+  }
+
+  const { data, error } = await supabase.from('collections').insert(collection).select().single();
+  if (error) throw error;
+  return data;
+};
+
+// Rename or re-parent. Moving a collection into its own subtree is refused
+// here and by the database.
+export const updateCollection = async (
+  collections: Collection[],
+  id: string,
+  changes: Partial<Pick<Collection, 'name' | 'parent_id'>>,
+  { isOnline, addPendingAction }: OfflineOptions
+): Promise<void> => {
+  if (changes.parent_id && collectionScope(collections, id).has(changes.parent_id)) {
+    throw new Error('A collection cannot be moved into itself');
+  }
+
+  if (!isOnline) {
+    addPendingAction({ type: 'update', table: 'collections', data: { id, ...changes } });
+    return;
+  }
+
+  const { error } = await supabase.from('collections').update(changes).eq('id', id);
+  if (error) throw error;
+};
+
+// Subcollections go with it; the items inside become unfiled
+export const deleteCollection = async (id: string, { isOnline, addPendingAction }: OfflineOptions): Promise<void> => {
+  if (!isOnline) {
+    addPendingAction({ type: 'delete', table: 'collections', data: { id } });
+    return;
+  }
+
+  const { error } = await supabase.from('collections').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// Only collection_id is sent, so a move never overwrites an edit made elsewhere
+export const moveToCollection = async (
+  table: 'commands' | 'notes',
+  id: string,
+  collectionId: string | null,
+  { isOnline, addPendingAction }: OfflineOptions
+): Promise<void> => {
+  if (!isOnline) {
+    addPendingAction({ type: 'update', table, data: { id, collection_id: collectionId } });
+    return;
+  }
+
+  const { error } = await supabase.from(table).update({ collection_id: collectionId }).eq('id', id);
+  if (error) throw error;
+};
+
+// Drag payloads for filing items and re-parenting collections in the sidebar
+export const ITEM_DRAG_TYPE = 'application/x-devnotes-item';
+export const COLLECTION_DRAG_TYPE = 'application/x-devnotes-collection';
+
+export interface DraggedItem {
+  id: string;
+  type: 'command' | 'note';
+}
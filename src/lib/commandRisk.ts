@@ -0,0 +1,466 @@
+// Shell-aware risk analysis for saved commands. Commands are only stored and
+// copied, never run here, so nothing is rejected: each finding explains what
+// a part of the command would do if someone pasted it into a terminal.
+
+export type RiskSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type RiskFinding = {
+  rule: string;
+  severity: RiskSeverity;
+  // Half-open character range of the matched text in the command
+  start: number;
+  end: number;
+  match: string;
+  message: string;
+};
+
+export const SEVERITY_ORDER: RiskSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+export interface ShellToken {
+  kind: 'word' | 'operator' | 'redirect';
+  // Source text, quotes included
+  text: string;
+  // Words with quotes and escapes removed
+  value: string;
+  start: number;
+  end: number;
+}
+
+interface Substitution {
+  // The command inside $(...) or backticks
+  body: string;
+  bodyStart: number;
+}
+
+interface SimpleCommand {
+  words: ShellToken[];
+  redirects: { op: ShellToken; target?: ShellToken }[];
+  // Set when this command reads the output of the previous one through a pipe
+  pipedFrom?: SimpleCommand;
+}
+
+const OPERATORS = ['&&', '||', '|&', ';;', '|', ';', '&', '(', ')'];
+const REDIRECTS = ['&>>', '&>', '<<<', '<<', '<>', '<&', '>&', '>>', '>|', '>', '<'];
+
+// Index of the ")" closing a "$(" whose body starts at `from`
+const findClosingParen = (input: string, from: number) => {
+  let depth = 1;
+  let quote: string | null = null;
+  for (let i = from; i < input.length; i++) {
+    const char = input[i];
+    if (quote) {
+      if (char === quote) quote = null;
+      else if (char === '\\' && quote === '"') i++;
+    } else if (char === '\\') {
+      i++;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return input.length;
+};
+
+export const tokenizeShell = (input: string): { tokens: ShellToken[]; substitutions: Substitution[] } => {
+  const tokens: ShellToken[] = [];
+  const substitutions: Substitution[] = [];
+  let word: { start: number; value: string } | null = null;
+  let i = 0;
+
+  const endWord = () => {
+    if (!word) return;
+    tokens.push({ kind: 'word', text: input.slice(word.start, i), value: word.value, start: word.start, end: i });
+    word = null;
+  };
+  const append = (value: string, at: number) => {
+    if (!word) word = { start: at, value: '' };
+    word.value += value;
+  };
+  const readSubstitution = (at: number): number => {
+    if (input[at] === '`') {
+      const close = input.indexOf('`', at + 1);
+      const end = close === -1 ? input.length : close;
+      substitutions.push({ body: input.slice(at + 1, end), bodyStart: at + 1 });
+      return Math.min(end + 1, input.length);
+    }
+    const close = findClosingParen(input, at + 2);
+    substitutions.push({ body: input.slice(at + 2, close), bodyStart: at + 2 });
+    return Math.min(close + 1, input.length);
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === '\n') {
+      endWord();
+      tokens.push({ kind: 'operator', text: ';', value: ';', start: i, end: i + 1 });
+      i++;
+    } else if (/\s/.test(char)) {
+      endWord();
+      i++;
+    } else if (char === '#' && !word) {
+      while (i < input.length && input[i] !== '\n') i++;
+    } else if (char === '\\') {
+      append(input[i + 1] ?? '', i);
+      i += 2;
+    } else if (char === "'") {
+      const close = input.indexOf("'", i + 1);
+      const end = close === -1 ? input.length : close;
+      append(input.slice(i + 1, end), i);
+      i = end + 1;
+    } else if (char === '"') {
+      append('', i);
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && i + 1 < input.length) {
+          word!.value += input[i + 1];
+          i += 2;
+        } else if (input[i] === '`' || input.startsWith('$(', i)) {
+          const end = readSubstitution(i);
+          word!.value += input.slice(i, end);
+          i = end;
+        } else {
+          word!.value += input[i++];
+        }
+      }
+      i++;
+    } else if (char === '`' || input.startsWith('$(', i)) {
+      const end = readSubstitution(i);
+      append(input.slice(i, end), i);
+      i = end;
+    } else {
+      const redirect = REDIRECTS.find(op => input.startsWith(op, i));
+      const operator = !redirect && OPERATORS.find(op => input.startsWith(op, i));
+
+      if (redirect) {
+        // A word made only of digits right before the redirect is its fd, as in 2>
+        const fdStart: number = word && /^\d+$/.test(input.slice(word.start, i)) ? word.start : i;
+        if (fdStart === i) endWord();
+        else word = null;
+        const end = i + redirect.length;
+        tokens.push({ kind: 'redirect', text: input.slice(fdStart, end), value: redirect, start: fdStart, end });
+        i = end;
+      } else if (operator) {
+        endWord();
+        tokens.push({ kind: 'operator', text: operator, value: operator, start: i, end: i + operator.length });
+        i += operator.length;
+      } else {
+        append(char, i);
+        i++;
+      }
+    }
+  }
+  endWord();
+
+  return { tokens, substitutions };
+};
+
+const splitCommands = (tokens: ShellToken[]): SimpleCommand[] => {
+  const commands: SimpleCommand[] = [];
+  let current: SimpleCommand = { words: [], redirects: [] };
+  let pipeNext = false;
+
+  const finish = () => {
+    if (current.words.length > 0 || current.redirects.length > 0) commands.push(current);
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind === 'operator') {
+      finish();
+      const previous = current;
+      pipeNext = token.value === '|' || token.value === '|&';
+      current = { words: [], redirects: [] };
+      if (pipeNext && previous.words.length > 0) current.pipedFrom = previous;
+    } else if (token.kind === 'redirect') {
+      const target = tokens[i + 1]?.kind === 'word' ? tokens[++i] : undefined;
+      current.redirects.push({ op: token, target });
+    } else {
+      current.words.push(token);
+    }
+  }
+  finish();
+
+  return commands;
+};
+
+const WRAPPERS = new Set(['sudo', 'doas', 'env', 'nohup', 'time', 'nice', 'exec', 'command', 'xargs', 'watch']);
+
+// The words of the program that actually runs, past variable assignments and
+// wrappers like sudo or env along with their options
+const effectiveWords = (words: ShellToken[]): ShellToken[] => {
+  let i = 0;
+  while (i < words.length) {
+    if (/^[A-Za-z_]\w*=/.test(words[i].value)) {
+      i++;
+    } else if (WRAPPERS.has(baseName(words[i].value))) {
+      i++;
+      while (i < words.length && words[i].value.startsWith('-')) {
+        // sudo -u user / nice -n 10 take a separate argument
+        const takesArg = /^-[ugnCcp]$/.test(words[i].value);
+        i += takesArg ? 2 : 1;
+      }
+    } else {
+      break;
+    }
+  }
+  return words.slice(i);
+};
+
+const baseName = (program: string) => program.split('/').pop() || program;
+
+// Short flags may be bundled (-rf), long ones spelled out (--recursive)
+const hasFlag = (args: ShellToken[], short: string, long?: string) =>
+  args.some(arg =>
+    (/^-[A-Za-z]+$/.test(arg.value) && arg.value.includes(short)) || (long !== undefined && arg.value === long)
+  );
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'fish', 'python', 'python3', 'perl', 'ruby', 'node']);
+const SYSTEM_PATHS = /^(\/|\/\*|~\/?|\$HOME\/?|\/(bin|boot|dev|etc|lib|lib64|opt|proc|root|sbin|sys|usr|var)(\/.*)?)$/;
+const BLOCK_DEVICE = /^\/dev\/(sd|hd|vd|xvd|nvme|mmcblk|disk)\w*/;
+
+const finding = (
+  rule: string,
+  severity: RiskSeverity,
+  from: ShellToken,
+  to: ShellToken,
+  source: string,
+  message: string
+): RiskFinding => ({
+  rule,
+  severity,
+  start: from.start,
+  end: to.end,
+  match: source.slice(from.start, to.end),
+  message,
+});
+
+const analyzeSimpleCommand = (command: SimpleCommand, source: string): RiskFinding[] => {
+  const findings: RiskFinding[] = [];
+  const words = effectiveWords(command.words);
+  const first = command.words[0];
+  const last = command.words[command.words.length - 1];
+
+  const wrapper = command.words.find(word => ['sudo', 'doas'].includes(baseName(word.value)));
+  if (wrapper) {
+    findings.push(finding('privileged', 'low', wrapper, wrapper, source, 'Runs with root privileges.'));
+  }
+
+  for (const { op, target } of command.redirects) {
+    if (!target || op.value.startsWith('<')) continue;
+    if (BLOCK_DEVICE.test(target.value)) {
+      findings.push(finding('device-write', 'critical', op, target, source,
+        'Writes directly to a disk device, destroying the filesystem on it.'));
+    } else if (/^\/(etc|boot|usr|bin|sbin|lib)\//.test(target.value)) {
+      findings.push(finding('system-file-write', 'high', op, target, source,
+        `${op.value.includes('>>') ? 'Appends to' : 'Overwrites'} a system file.`));
+    }
+  }
+
+  if (words.length === 0) return findings;
+  const program = baseName(words[0].value);
+  const args = words.slice(1);
+  const end = last;
+
+  switch (program) {
+    case 'rm': {
+      if (!hasFlag(args, 'r', '--recursive') && !hasFlag(args, 'R')) break;
+      const target = args.find(arg => !arg.value.startsWith('-') && (SYSTEM_PATHS.test(arg.value) || arg.value === '*'));
+      if (target) {
+        findings.push(finding('recursive-delete-root', 'critical', first, end, source,
+          `Recursively deletes ${target.value === '*' ? 'everything in the current directory' : target.value}.`));
+      } else if (hasFlag(args, 'f', '--force')) {
+        findings.push(finding('recursive-delete', 'medium', first, end, source,
+          'Recursively deletes files without asking for confirmation.'));
+      }
+      break;
+    }
+    case 'dd': {
+      const output = args.find(arg => arg.value.startsWith('of='));
+      if (output && BLOCK_DEVICE.test(output.value.slice(3))) {
+        findings.push(finding('device-write', 'critical', first, end, source,
+          'Overwrites a disk device block by block.'));
+      }
+      break;
+    }
+    case 'fdisk':
+    case 'parted':
+    case 'wipefs':
+    case 'sfdisk':
+      findings.push(finding('partitioning', 'high', first, end, source, 'Changes disk partitions.'));
+      break;
+    case 'chmod': {
+      const mode = args.find(arg => /^0?777$|^a\+rwx$/.test(arg.value));
+      if (mode) {
+        findings.push(finding('world-writable', hasFlag(args, 'R', '--recursive') ? 'high' : 'medium', first, end, source,
+          'Makes files readable, writable and executable by every user.'));
+      }
+      break;
+    }
+    case 'chown':
+      if (hasFlag(args, 'R', '--recursive') && args.some(arg => SYSTEM_PATHS.test(arg.value))) {
+        findings.push(finding('recursive-chown', 'high', first, end, source,
+          'Recursively changes ownership of a system directory.'));
+      }
+      break;
+    case 'nc':
+    case 'ncat':
+    case 'netcat':
+      if (hasFlag(args, 'e') || hasFlag(args, 'c')) {
+        findings.push(finding('reverse-shell', 'high', first, end, source,
+          'Connects a program to a network socket, a common reverse shell.'));
+      }
+      break;
+    case 'eval':
+      findings.push(finding('eval', 'medium', first, end, source,
+        'Runs its arguments as shell code, so quoting mistakes can execute unintended commands.'));
+      break;
+    case 'git': {
+      const sub = args.find(arg => !arg.value.startsWith('-'));
+      if (sub?.value === 'push' && (hasFlag(args, 'f', '--force') || args.some(arg => arg.value.startsWith('+')))) {
+        findings.push(finding('force-push', 'medium', first, end, source, 'Overwrites remote history.'));
+      } else if (sub?.value === 'reset' && args.some(arg => arg.value === '--hard')) {
+        findings.push(finding('discard-changes', 'medium', first, end, source, 'Discards uncommitted changes.'));
+      } else if (sub?.value === 'clean' && hasFlag(args, 'f', '--force')) {
+        findings.push(finding('discard-changes', 'medium', first, end, source, 'Deletes untracked files.'));
+      }
+      break;
+    }
+    case 'kubectl':
+      if (args.some(arg => arg.value === 'delete')) {
+        const broad = args.some(arg => ['--all', '-A', '--all-namespaces', 'ns', 'namespace', 'namespaces'].includes(arg.value));
+        findings.push(finding('kubectl-delete', broad ? 'high' : 'medium', first, end, source,
+          broad ? 'Deletes Kubernetes resources across a whole namespace or cluster.' : 'Deletes Kubernetes resources.'));
+      }
+      break;
+    case 'docker':
+      if (args.some(arg => arg.value === 'prune')) {
+        findings.push(finding('docker-prune', 'medium', first, end, source,
+          'Removes Docker data such as stopped containers, images or volumes.'));
+      }
+      break;
+    case 'kill':
+      if (args.some(arg => arg.value === '-1')) {
+        findings.push(finding('kill-all', 'high', first, end, source, 'Sends a signal to every process you can reach.'));
+      }
+      break;
+    case 'shutdown':
+    case 'reboot':
+    case 'halt':
+    case 'poweroff':
+      findings.push(finding('power', 'medium', first, end, source, 'Shuts down or restarts the machine.'));
+      break;
+    default:
+      if (program.startsWith('mkfs')) {
+        findings.push(finding('format', 'high', first, end, source, 'Creates a new filesystem, erasing the device.'));
+      }
+  }
+
+  // curl ... | sh runs whatever the server returns
+  const upstream = command.pipedFrom && effectiveWords(command.pipedFrom.words)[0];
+  if (upstream && ['curl', 'wget'].includes(baseName(upstream.value)) && SHELLS.has(program)) {
+    findings.push({
+      rule: 'pipe-to-shell',
+      severity: 'high',
+      start: command.pipedFrom!.words[0].start,
+      end: end.end,
+      match: source.slice(command.pipedFrom!.words[0].start, end.end),
+      message: `Downloads a script and runs it with ${program} without a chance to review it.`,
+    });
+  }
+
+  return findings;
+};
+
+// Patterns that are clearer as text than as shell structure
+const TEXT_RULES: { rule: string; severity: RiskSeverity; pattern: RegExp; message: string }[] = [
+  {
+    rule: 'fork-bomb',
+    severity: 'critical',
+    pattern: /:\s*\(\s*\)\s*\{\s*:\s*\|\s*:\s*&\s*\}\s*;\s*:/g,
+    message: 'Fork bomb: spawns processes until the machine stops responding.',
+  },
+  {
+    rule: 'dev-tcp',
+    severity: 'high',
+    pattern: /\/dev\/(tcp|udp)\/[^\s]+/g,
+    message: 'Opens a raw network connection from the shell, a common reverse shell.',
+  },
+  {
+    rule: 'sql-drop',
+    severity: 'high',
+    pattern: /\b(drop\s+(table|database|schema)|truncate\s+table)\b[^;"']*/gi,
+    message: 'Permanently removes a database object and its data.',
+  },
+  {
+    rule: 'sql-unscoped-delete',
+    severity: 'high',
+    pattern: /\bdelete\s+from\s+[\w.]+(?![^;]*\bwhere\b)[^;"']*/gi,
+    message: 'DELETE without a WHERE clause removes every row.',
+  },
+  {
+    rule: 'inline-secret',
+    severity: 'medium',
+    pattern: /(--password[= ]\S+|\b(AWS_SECRET_ACCESS_KEY|GITHUB_TOKEN|API_KEY|PASSWORD)=\S+|Authorization:\s*Bearer\s+[\w.-]+)/gi,
+    message: 'Contains a credential in plain text. Consider a placeholder or an environment variable.',
+  },
+];
+
+const analyzeAt = (source: string, offset: number, depth: number): RiskFinding[] => {
+  const { tokens, substitutions } = tokenizeShell(source);
+  const findings = splitCommands(tokens).flatMap(command => analyzeSimpleCommand(command, source));
+
+  for (const { rule, severity, pattern, message } of TEXT_RULES) {
+    for (const match of source.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      findings.push({ rule, severity, start, end: start + match[0].length, match: match[0], message });
+    }
+  }
+
+  for (const { body, bodyStart } of substitutions) {
+    // $( is two characters, a backtick one; both close with one
+    const start = bodyStart - (source[bodyStart - 1] === '`' ? 1 : 2);
+    const end = Math.min(bodyStart + body.length + 1, source.length);
+    findings.push({
+      rule: 'command-substitution',
+      severity: 'low',
+      start,
+      end,
+      match: source.slice(start, end),
+      message: 'Runs a nested command and pastes its output into this one.',
+    });
+    // Look inside as well, e.g. $(curl ... | sh)
+    if (depth < 3) findings.push(...analyzeAt(body, bodyStart, depth + 1));
+  }
+
+  return findings.map(item => ({ ...item, start: item.start + offset, end: item.end + offset }));
+};
+
+export const analyzeCommandRisks = (command: string): RiskFinding[] => {
+  const seen = new Set<string>();
+  return analyzeAt(command, 0, 0)
+    .filter(item => {
+      // Text rules and nested analysis can report the same span twice
+      const key = `${item.rule}:${item.start}:${item.end}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.start - b.start || SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity));
+};
+
+export const highestSeverity = (findings: RiskFinding[]): RiskSeverity | null =>
+  findings.reduce<RiskSeverity | null>(
+    (max, item) => (max === null || SEVERITY_ORDER.indexOf(item.severity) > SEVERITY_ORDER.indexOf(max) ? item.severity : max),
+    null
+  );
+
+// Stored findings come back from the database as untyped JSON
+export const parseStoredFindings = (value: unknown): RiskFinding[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is RiskFinding =>
+        !!item && typeof item === 'object' && typeof item.message === 'string' && SEVERITY_ORDER.includes(item.severity))
+    : [];
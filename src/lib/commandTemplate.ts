@@ -0,0 +1,90 @@
+// Placeholders inside saved commands, filled in just before copying:
+//
+//   {{namespace}}               free text
+//   {{branch:default=main}}     free text with a default
+//   {{env:dev|staging|prod}}    one of a fixed set; the first is the default
+//   <pod:default=web>           same specs in angle brackets
+//
+// The angle form needs a ":" spec so shell redirects and HTML in commands
+// like `echo "<div>"` are left alone. Go template actions, as in kubectl's
+// `-o go-template='{{range .items}}{{.metadata.name}}{{end}}'`, aren't
+// placeholders either. A backslash keeps any other placeholder as written:
+// `\{{name}}` is copied as `{{name}}`.
+
+export interface TemplateField {
+  name: string;
+  defaultValue?: string;
+  options?: string[];
+}
+
+const PLACEHOLDER = /(\\)?(?:\{\{\s*([A-Za-z_][\w-]*)\s*(?::([^}]*))?\}\}|<([A-Za-z_][\w-]*):([^<>\n]*)>)/g;
+
+// Actions that Go templates write bare, like {{end}}; with a spec they are placeholders again
+const GO_TEMPLATE_KEYWORDS = new Set(['end', 'else', 'range', 'if', 'with', 'define', 'template', 'block', 'break', 'continue', 'nil']);
+
+type PlaceholderMatch = [string, string?, string?, string?, string?, string?];
+
+// The field a match stands for, or nothing when it is escaped or Go template text
+const matchedName = ([, escaped, braceName, braceSpec, angleName]: PlaceholderMatch): string | undefined => {
+  if (escaped) return undefined;
+  if (braceName && braceSpec === undefined && GO_TEMPLATE_KEYWORDS.has(braceName)) return undefined;
+  return braceName ?? angleName;
+};
+
+const STORAGE_PREFIX = 'devnotes-template-values:';
+
+const parseSpec = (name: string, spec: string | undefined): TemplateField => {
+  const trimmed = spec?.trim();
+  if (!trimmed) return { name };
+  if (trimmed.startsWith('default=')) return { name, defaultValue: trimmed.slice('default='.length) };
+
+  const options = trimmed.split('|').map(option => option.trim()).filter(Boolean);
+  return { name, options, defaultValue: options[0] };
+};
+
+// Fields in order of first appearance. A name used twice is one field; the
+// first occurrence that carries a spec decides its default and options.
+export const parseTemplate = (command: string): TemplateField[] => {
+  const fields = new Map<string, TemplateField>();
+
+  for (const match of command.matchAll(PLACEHOLDER)) {
+    const name = matchedName(match as PlaceholderMatch);
+    if (!name) continue;
+    const field = parseSpec(name, match[3] ?? match[5]);
+    const known = fields.get(name);
+    if (!known || (!known.defaultValue && !known.options && (field.defaultValue || field.options))) {
+      fields.set(name, field);
+    }
+  }
+
+  return Array.from(fields.values());
+};
+
+export const hasPlaceholders = (command: string): boolean => parseTemplate(command).length > 0;
+
+// With no values this only drops the backslashes that escape placeholders,
+// which is how a command without fields is copied
+export const fillTemplate = (command: string, values: Record<string, string>): string =>
+  command.replace(PLACEHOLDER, (...match: PlaceholderMatch) => {
+    const [placeholder, escaped] = match;
+    if (escaped) return placeholder.slice(1);
+    const name = matchedName(match);
+    return (name && values[name]) ?? placeholder;
+  });
+
+export const loadTemplateValues = (commandId: string): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_PREFIX + commandId) || '{}');
+  } catch (error) {
+    console.error('Failed to read saved template values:', error);
+    return {};
+  }
+};
+
+export const saveTemplateValues = (commandId: string, values: Record<string, string>) => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + commandId, JSON.stringify(values));
+  } catch (error) {
+    console.error('Failed to save template values:', error);
+  }
+};
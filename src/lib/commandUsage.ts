@@ -0,0 +1,129 @@
+// Copy and run counts per command, recorded as events on the server (queued
+// while offline) and read back as per-command totals
+
+import { supabase } from '@/integrations/supabase/client';
+import { decayedCount } from '@/lib/frecency';
+import type { PendingAction } from '@/lib/syncEngine';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type UsageEvent = 'copy' | 'run';
+
+// Keyed by command id so totals can live in the offline cache
+export interface CommandUsage {
+  id: string;
+  copy_count: number;
+  run_count: number;
+  last_used_at: string | null;
+}
+
+export type CommandSort = 'frecency' | 'copies' | 'recent' | 'alphabetical' | 'created';
+
+export const COMMAND_SORTS: { value: CommandSort; label: string }[] = [
+  { value: 'frecency', label: 'Frequently used' },
+  { value: 'copies', label: 'Most copied' },
+  { value: 'recent', label: 'Recently used' },
+  { value: 'alphabetical', label: 'Alphabetical' },
+  { value: 'created', label: 'Newest' },
+];
+
+type QueueAction = (action: Omit<PendingAction, 'id' | 'timestamp'>) => void;
+
+const usedTime = (usage: CommandUsage | undefined) => (usage?.last_used_at ? new Date(usage.last_used_at).getTime() : 0);
+
+export const usageCount = (usage: CommandUsage | undefined) => (usage ? usage.copy_count + usage.run_count : 0);
+
+export const usageFrecency = (usage: CommandUsage | undefined, now = Date.now()) =>
+  usage?.last_used_at ? decayedCount(usageCount(usage), usage.last_used_at, now) : 0;
+
+export const applyUsageEvent = (
+  usage: CommandUsage | undefined,
+  commandId: string,
+  event: UsageEvent,
+  usedAt: string
+): CommandUsage => ({
+  id: commandId,
+  copy_count: (usage?.copy_count ?? 0) + (event === 'copy' ? 1 : 0),
+  run_count: (usage?.run_count ?? 0) + (event === 'run' ? 1 : 0),
+  last_used_at: usedTime(usage) > new Date(usedAt).getTime() ? usage!.last_used_at : usedAt,
+});
+
+export const fetchCommandUsage = async (userId: string): Promise<CommandUsage[]> => {
+  const { data, error } = await supabase
+    .from('command_usage')
+    .select('command_id, copy_count, run_count, last_used_at')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return (data || [])
+    .filter(row => row.command_id)
+    .map(row => ({
+      id: row.command_id!,
+      copy_count: row.copy_count ?? 0,
+      run_count: row.run_count ?? 0,
+      last_used_at: row.last_used_at,
+    }));
+};
+
+interface RecordUsageOptions {
+  userId: string;
+  commandId: string;
+  event: UsageEvent;
+  isOnline: boolean;
+  addPendingAction: QueueAction;
+  // Queued events reach the offline cache through the queue; this is for the rest
+  cacheUsageEvent: (event: Tables<'command_usage_events'>) => void;
+}
+
+export const recordCommandUsage = async ({
+  userId,
+  commandId,
+  event,
+  isOnline,
+  addPendingAction,
+  cacheUsageEvent,
+}: RecordUsageOptions): Promise<Tables<'command_usage_events'>> => {
+  const row = {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    command_id: commandId,
+    event,
+    used_at: new Date().toISOString(),
+  };
+
+  if (isOnline) {
+    const { error } = await supabase.from('command_usage_events').insert(row);
+    if (!error) {
+      cacheUsageEvent(row);
+      return row;
+    }
+    // Don't lose the event over a flaky connection; the sync engine retries it
+  }
+
+  addPendingAction({ type: 'create', table: 'command_usage_events', data: row });
+  return row;
+};
+
+const compareNewest = (a: { created_at: string }, b: { created_at: string }) =>
+  b.created_at.localeCompare(a.created_at);
+
+export const sortCommands = <T extends { id: string; title: string; created_at: string }>(
+  commands: T[],
+  usage: Record<string, CommandUsage>,
+  sort: CommandSort
+): T[] => {
+  const now = Date.now();
+  const sorted = [...commands];
+
+  switch (sort) {
+    case 'frecency':
+      return sorted.sort((a, b) => usageFrecency(usage[b.id], now) - usageFrecency(usage[a.id], now) || compareNewest(a, b));
+    case 'copies':
+      return sorted.sort((a, b) => (usage[b.id]?.copy_count ?? 0) - (usage[a.id]?.copy_count ?? 0) || compareNewest(a, b));
+    case 'recent':
+      return sorted.sort((a, b) => usedTime(usage[b.id]) - usedTime(usage[a.id]) || compareNewest(a, b));
+    case 'alphabetical':
+      return sorted.sort((a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base' }));
+    default:
+      return sorted.sort(compareNewest);
+  }
+};
@@ -0,0 +1,68 @@
+// Line and tag diff utilities used by the version history view
+
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+}
+
+export interface TagDiff {
+  added: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+// Classic LCS line diff. Notes and commands are small enough that the
+// O(n * m) table is not a concern.
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = (before || '').split('\n');
+  const b = (after || '').split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'equal', value: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', value: a[i] });
+      i++;
+    } else {
+      result.push({ type: 'added', value: b[j] });
+      j++;
+    }
+  }
+
+  while (i < a.length) result.push({ type: 'removed', value: a[i++] });
+  while (j < b.length) result.push({ type: 'added', value: b[j++] });
+
+  return result;
+};
+
+export const diffTags = (before: string[] | null | undefined, after: string[] | null | undefined): TagDiff => {
+  const from = before || [];
+  const to = after || [];
+
+  return {
+    added: to.filter(tag => !from.includes(tag)),
+    removed: from.filter(tag => !to.includes(tag)),
+    unchanged: to.filter(tag => from.includes(tag)),
+  };
+};
+
+export const hasChanges = (diff: DiffLine[]): boolean => {
+  return diff.some(line => line.type !== 'equal');
+};
@@ -0,0 +1,50 @@
+// Shapes shared by the code runners (see remoteRunner, pythonRunner,
+// sqlRunner and bashRunner), so CodeRunner can treat every language alike.
+
+export type OutputStream = 'stdout' | 'stderr';
+
+export interface OutputChunk {
+  stream: OutputStream;
+  text: string;
+}
+
+// What a program is run with besides its code, as on a command line
+export interface RunInputs {
+  stdin: string;
+  args: string[];
+  env: Record<string, string>;
+}
+
+export interface RunOptions {
+  inputs?: RunInputs;
+  // Receives output as the program writes it, for runners that can stream
+  onOutput?: (chunk: OutputChunk) => void;
+  // Aborting stops the run; it then resolves with STOPPED_EXIT_CODE
+  signal?: AbortSignal;
+}
+
+export interface ExecutionResult {
+  output: string;
+  error?: string;
+  executionTime: number;
+  exitCode: number;
+  // Why the runner cut the program short, e.g. that it hit the time limit
+  stopReason?: string;
+  // Line of the snippet an error was raised from, when the runtime reports it
+  errorLine?: number;
+}
+
+export const EMPTY_INPUTS: RunInputs = { stdin: '', args: [], env: {} };
+
+// Exit codes a shell would report for a program killed by SIGKILL, as on a
+// timeout, and for one interrupted with Ctrl+C
+export const KILLED_EXIT_CODE = 137;
+export const STOPPED_EXIT_CODE = 130;
+
+export const stoppedResult = (output = '', error = '', executionTime = 0): ExecutionResult => ({
+  output,
+  error: error || undefined,
+  executionTime,
+  exitCode: STOPPED_EXIT_CODE,
+  stopReason: 'Stopped',
+});
@@ -0,0 +1,87 @@
+// How often and how recently notes were opened, kept per device in
+// localStorage, the decay that command usage shares, and the fuzzy matching
+// the command palette ranks with.
+
+import type { ItemType } from '@/lib/itemLinks';
+
+export interface UsageEntry {
+  count: number;
+  lastUsedAt: string;
+}
+
+const STORAGE_KEY = 'devnotes-usage';
+const HALF_LIFE_DAYS = 7;
+
+const usageKey = (type: ItemType, id: string) => `${type}:${id}`;
+
+export const loadUsage = (): Record<string, UsageEntry> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const recordUsage = (type: ItemType, id: string) => {
+  const usage = loadUsage();
+  const entry = usage[usageKey(type, id)];
+  usage[usageKey(type, id)] = {
+    count: (entry?.count ?? 0) + 1,
+    lastUsedAt: new Date().toISOString(),
+  };
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(usage));
+  } catch (error) {
+    console.error('Failed to record usage:', error);
+  }
+};
+
+// A use counts half as much for every HALF_LIFE_DAYS since the last one
+export const decayedCount = (count: number, lastUsedAt: string, now = Date.now()): number => {
+  const ageDays = Math.max(0, now - new Date(lastUsedAt).getTime()) / 86_400_000;
+  return count * Math.pow(0.5, ageDays / HALF_LIFE_DAYS);
+};
+
+export const frecencyScore = (
+  usage: Record<string, UsageEntry>,
+  type: ItemType,
+  id: string,
+  now = Date.now()
+): number => {
+  const entry = usage[usageKey(type, id)];
+  return entry ? decayedCount(entry.count, entry.lastUsedAt, now) : 0;
+};
+
+const isWordStart = (text: string, index: number) => index === 0 || /[\s\-_/.:]/.test(text[index - 1]);
+
+// Subsequence match: every query character must appear in order. Runs of
+// consecutive characters and matches at word starts score higher; 0 means
+// no match.
+export const fuzzyScore = (text: string, query: string): number => {
+  const haystack = text.toLowerCase();
+  const needle = query.trim().toLowerCase();
+  if (!needle) return 1;
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+
+  for (const char of needle) {
+    if (char === ' ') continue;
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return 0;
+
+    let points = 1;
+    if (index === previous + 1) points += 2;
+    if (isWordStart(haystack, index)) points += 3;
+    score += points;
+
+    previous = index;
+    from = index + 1;
+  }
+
+  // Prefer shorter texts, and an exact substring over a scattered match
+  const bonus = haystack.includes(needle) ? 5 : 0;
+  return (score + bonus) / (1 + haystack.length / 100);
+};
@@ -0,0 +1,80 @@
+// Graph model for the /graph view: notes and commands as nodes, note_links as edges
+
+import type { SimulationNodeDatum, SimulationLinkDatum } from 'd3-force';
+import type { ItemType } from '@/lib/itemLinks';
+
+export interface GraphNode extends SimulationNodeDatum {
+  id: string;
+  type: ItemType;
+  title: string;
+  tags: string[];
+  // Links in either direction across the whole graph, before filtering
+  degree: number;
+}
+
+export type GraphEdge = SimulationLinkDatum<GraphNode> & { id: string };
+
+export interface GraphData {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+interface GraphItem {
+  id: string;
+  title: string;
+  tags?: string[] | null;
+}
+
+interface GraphLink {
+  id: string;
+  from_id: string;
+  to_id: string;
+}
+
+export const buildGraph = (notes: GraphItem[], commands: GraphItem[], links: GraphLink[]): GraphData => {
+  const nodes = new Map<string, GraphNode>();
+  const add = (item: GraphItem, type: ItemType) =>
+    nodes.set(item.id, { id: item.id, type, title: item.title, tags: item.tags || [], degree: 0 });
+
+  notes.forEach(note => add(note, 'note'));
+  commands.forEach(cmd => add(cmd, 'command'));
+
+  // Links whose ends were deleted can linger; leave them out
+  const edges = links
+    .filter(link => nodes.has(link.from_id) && nodes.has(link.to_id) && link.from_id !== link.to_id)
+    .map(link => {
+      nodes.get(link.from_id)!.degree++;
+      nodes.get(link.to_id)!.degree++;
+      return { id: link.id, source: link.from_id, target: link.to_id };
+    });
+
+  return { nodes: Array.from(nodes.values()), edges };
+};
+
+// Keep only nodes carrying the tag, and the edges between them
+export const filterGraphByTag = (graph: GraphData, tag: string | null): GraphData => {
+  if (!tag) return graph;
+  const nodes = graph.nodes.filter(node => node.tags.includes(tag));
+  const ids = new Set(nodes.map(node => node.id));
+  const endpoint = (end: GraphEdge['source']) => (typeof end === 'object' ? end.id : String(end));
+  return {
+    nodes,
+    edges: graph.edges.filter(edge => ids.has(endpoint(edge.source)) && ids.has(endpoint(edge.target))),
+  };
+};
+
+export const TYPE_COLORS: Record<ItemType, string> = {
+  note: '#3b82f6',
+  command: '#22c55e',
+};
+
+const TAG_PALETTE = ['#f97316', '#a855f7', '#06b6d4', '#eab308', '#ec4899', '#14b8a6', '#8b5cf6', '#84cc16', '#f43f5e', '#0ea5e9'];
+export const UNTAGGED_COLOR = '#94a3b8';
+
+// Stable colour per tag name so a tag keeps its colour between visits
+export const tagColor = (tag: string | undefined): string => {
+  if (!tag) return UNTAGGED_COLOR;
+  let hash = 0;
+  for (let i = 0; i < tag.length; i++) hash = (hash * 31 + tag.charCodeAt(i)) | 0;
+  return TAG_PALETTE[Math.abs(hash) % TAG_PALETTE.length];
+};
@@ -0,0 +1,320 @@
+// Reading and writing note_links, online through Supabase and offline through the local cache
+
+import { supabase } from '@/integrations/supabase/client';
+import { getAllRecords, getRecord, getRecordsByIndex } from '@/lib/offlineDb';
+import type { PendingAction } from '@/lib/syncEngine';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ItemType = 'note' | 'command';
+export type NoteLink = Tables<'note_links'>;
+
+// Kept in step with the note_links_relation_check constraint
+export const LINK_RELATIONS = ['explains', 'depends-on', 'replaces', 'see-also', 'example-of'] as const;
+export type LinkRelation = typeof LINK_RELATIONS[number];
+export const DEFAULT_RELATION: LinkRelation = 'see-also';
+
+// Read as "<this item> <label> <linked item>"
+export const RELATION_LABELS: Record<LinkRelation, string> = {
+  'explains': 'Explains',
+  'depends-on': 'Depends on',
+  'replaces': 'Replaces',
+  'see-also': 'See also',
+  'example-of': 'Example of',
+};
+
+// Links cached before relations existed have none; they were untyped see-also edges
+export const linkRelation = (link: Partial<Pick<NoteLink, 'relation'>>): LinkRelation =>
+  (LINK_RELATIONS as readonly string[]).includes(link.relation ?? '') ? link.relation as LinkRelation : DEFAULT_RELATION;
+
+export interface LinkedItem {
+  id: string;
+  title: string;
+  type: ItemType;
+  content?: string;
+  command?: string;
+  relation?: LinkRelation;
+}
+
+export interface SelectedLink {
+  id: string;
+  title: string;
+  type: ItemType;
+  relation: LinkRelation;
+}
+
+// Deep-linkable page for a single note or command
+export const itemPath = (type: ItemType, id: string) => `/${type === 'note' ? 'notes' : 'commands'}/${id}`;
+
+type QueueAction = (action: Omit<PendingAction, 'id' | 'timestamp'>) => void;
+
+const cachedOutgoingLinks = async (itemId: string, itemType: ItemType): Promise<NoteLink[]> => {
+  const links = await getRecordsByIndex<NoteLink>('note_links', 'from_id', itemId);
+  return links.filter(link => link.from_type === itemType);
+};
+
+export const fetchOutgoingLinks = async (
+  userId: string,
+  itemId: string,
+  itemType: ItemType,
+  isOnline: boolean
+): Promise<NoteLink[]> => {
+  if (!isOnline) return cachedOutgoingLinks(itemId, itemType);
+
+  try {
+    const { data, error } = await supabase
+      .from('note_links')
+      .select('*')
+      .eq('from_id', itemId)
+      .eq('from_type', itemType)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    return data || [];
+  } catch {
+    // A flaky connection still reports navigator.onLine, so fall back quietly
+    return cachedOutgoingLinks(itemId, itemType);
+  }
+};
+
+const cachedIncomingLinks = async (itemId: string, itemType: ItemType): Promise<NoteLink[]> => {
+  const links = await getRecordsByIndex<NoteLink>('note_links', 'to_id', itemId);
+  return links.filter(link => link.to_type === itemType);
+};
+
+// Links pointing at an item, for its "Referenced by" list
+export const fetchIncomingLinks = async (
+  userId: string,
+  itemId: string,
+  itemType: ItemType,
+  isOnline: boolean
+): Promise<NoteLink[]> => {
+  if (!isOnline) return cachedIncomingLinks(itemId, itemType);
+
+  try {
+    const { data, error } = await supabase
+      .from('note_links')
+      .select('*')
+      .eq('to_id', itemId)
+      .eq('to_type', itemType)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    return data || [];
+  } catch {
+    return cachedIncomingLinks(itemId, itemType);
+  }
+};
+
+const cachedItems = async (noteIds: string[], commandIds: string[]): Promise<LinkedItem[]> => {
+  const [notes, commands] = await Promise.all([
+    Promise.all(noteIds.map(id => getRecord<Tables<'notes'>>('notes', id))),
+    Promise.all(commandIds.map(id => getRecord<Tables<'commands'>>('commands', id))),
+  ]);
+
+  return [
+    ...notes.filter(Boolean).map(note => ({
+      id: note.id,
+      title: note.title,
+      type: 'note' as const,
+      content: note.content,
+    })),
+    ...commands.filter(Boolean).map(cmd => ({
+      id: cmd.id,
+      title: cmd.title,
+      type: 'command' as const,
+      command: cmd.command,
+    })),
+  ];
+};
+
+// Load the notes and commands at the other end of a set of links
+export const resolveLinkTargets = async (
+  userId: string,
+  links: Pick<NoteLink, 'to_id' | 'to_type'>[],
+  isOnline: boolean
+): Promise<LinkedItem[]> => {
+  const noteIds = links.filter(link => link.to_type === 'note').map(link => link.to_id);
+  const commandIds = links.filter(link => link.to_type === 'command').map(link => link.to_id);
+
+  if (noteIds.length === 0 && commandIds.length === 0) return [];
+  if (!isOnline) return cachedItems(noteIds, commandIds);
+
+  try {
+    const [notesResult, commandsResult] = await Promise.all([
+      noteIds.length > 0
+        ? supabase.from('notes').select('id, title, content').in('id', noteIds).eq('user_id', userId)
+        : Promise.resolve({ data: [], error: null }),
+      commandIds.length > 0
+        ? supabase.from('commands').select('id, title, command').in('id', commandIds).eq('user_id', userId)
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+
+    if (notesResult.error) throw notesResult.error;
+    if (commandsResult.error) throw commandsResult.error;
+
+    return [
+      ...(notesResult.data || []).map(note => ({
+        id: note.id,
+        title: note.title,
+        type: 'note' as const,
+        content: note.content,
+      })),
+      ...(commandsResult.data || []).map(cmd => ({
+        id: cmd.id,
+        title: cmd.title,
+        type: 'command' as const,
+        command: cmd.command,
+      })),
+    ];
+  } catch {
+    return cachedItems(noteIds, commandIds);
+  }
+};
+
+// Attach each link's relation to the item resolved for its far end
+export const withRelations = <L extends Partial<Pick<NoteLink, 'relation'>>>(
+  items: LinkedItem[],
+  links: L[],
+  end: (link: L) => { id: string; type: string }
+): LinkedItem[] =>
+  items.map(item => {
+    const link = links.find(candidate => {
+      const other = end(candidate);
+      return other.id === item.id && other.type === item.type;
+    });
+    return { ...item, relation: link ? linkRelation(link) : DEFAULT_RELATION };
+  });
+
+// Notes and commands linking to one item, each with the relation it uses
+export const fetchBacklinks = async (
+  userId: string,
+  itemId: string,
+  itemType: ItemType,
+  isOnline: boolean
+): Promise<LinkedItem[]> => {
+  const links = await fetchIncomingLinks(userId, itemId, itemType, isOnline);
+  // Resolve the other end of each link, which here is the source
+  const items = await resolveLinkTargets(
+    userId,
+    links.map(link => ({ to_id: link.from_id, to_type: link.from_type })),
+    isOnline
+  );
+  return withRelations(items, links, link => ({ id: link.from_id, type: link.from_type }));
+};
+
+export const itemKey = (type: ItemType | string, id: string) => `${type}:${id}`;
+
+// Backlinks for every item at once, keyed by itemKey and resolved against the
+// notes and commands a list has already loaded, so cards need no query each
+export const groupBacklinks = (
+  links: NoteLink[],
+  notes: Pick<Tables<'notes'>, 'id' | 'title' | 'content'>[],
+  commands: Pick<Tables<'commands'>, 'id' | 'title' | 'command'>[]
+): Map<string, LinkedItem[]> => {
+  const items = new Map<string, LinkedItem>([
+    ...notes.map(note => [
+      itemKey('note', note.id),
+      { id: note.id, title: note.title, type: 'note' as const, content: note.content },
+    ] as const),
+    ...commands.map(cmd => [
+      itemKey('command', cmd.id),
+      { id: cmd.id, title: cmd.title, type: 'command' as const, command: cmd.command },
+    ] as const),
+  ]);
+
+  const backlinks = new Map<string, LinkedItem[]>();
+  for (const link of links) {
+    const source = items.get(itemKey(link.from_type, link.from_id));
+    if (!source) continue;
+    const target = itemKey(link.to_type, link.to_id);
+    if (!backlinks.has(target)) backlinks.set(target, []);
+    backlinks.get(target)!.push({ ...source, relation: linkRelation(link) });
+  }
+  return backlinks;
+};
+
+// Title search over the local cache, so linking works the same offline
+export const searchLinkableItems = async (query: string, limit = 10): Promise<LinkedItem[]> => {
+  const needle = query.trim().toLowerCase();
+  const [notes, commands] = await Promise.all([
+    getAllRecords<Tables<'notes'>>('notes'),
+    getAllRecords<Tables<'commands'>>('commands'),
+  ]);
+  const matches = (title: string) => title.toLowerCase().includes(needle);
+
+  return [
+    ...notes.filter(note => matches(note.title)).slice(0, limit).map(note => ({
+      id: note.id,
+      title: note.title,
+      type: 'note' as const,
+      content: note.content,
+    })),
+    ...commands.filter(cmd => matches(cmd.title)).slice(0, limit).map(cmd => ({
+      id: cmd.id,
+      title: cmd.title,
+      type: 'command' as const,
+      command: cmd.command,
+    })),
+  ];
+};
+
+interface SaveLinksOptions {
+  userId: string;
+  fromId: string;
+  fromType: ItemType;
+  existing: NoteLink[];
+  selected: SelectedLink[];
+  isOnline: boolean;
+  addPendingAction: QueueAction;
+}
+
+// Apply the difference between the links an item had and the ones now
+// selected. Offline, each addition, removal and relation change is queued
+// for the sync engine.
+export const saveItemLinks = async ({
+  userId,
+  fromId,
+  fromType,
+  existing,
+  selected,
+  isOnline,
+  addPendingAction,
+}: SaveLinksOptions): Promise<void> => {
+  const removed = existing.filter(link =>
+    !selected.some(item => item.id === link.to_id && item.type === link.to_type)
+  );
+  const added: NoteLink[] = selected
+    .filter(item => !existing.some(link => link.to_id === item.id && link.to_type === item.type))
+    .map(item => ({
+      id: crypto.randomUUID(),
+      user_id: userId,
+      from_id: fromId,
+      from_type: fromType,
+      to_id: item.id,
+      to_type: item.type,
+      relation: item.relation,
+      created_at: new Date().toISOString(),
+    }));
+  const retyped: NoteLink[] = existing.flatMap(link => {
+    const item = selected.find(candidate => candidate.id === link.to_id && candidate.type === link.to_type);
+    return item && item.relation !== linkRelation(link) ? [{ ...link, relation: item.relation }] : [];
+  });
+
+  if (!isOnline) {
+    removed.forEach(link => addPendingAction({ type: 'delete', table: 'note_links', data: link }));
+    added.forEach(link => addPendingAction({ type: 'create', table: 'note_links', data: link }));
+    retyped.forEach(link => addPendingAction({ type: 'update', table: 'note_links', data: link }));
+    return;
+  }
+
+  if (removed.length === 0 && added.length === 0 && retyped.length === 0) return;
+
+  // One transaction on the server replaces the whole outgoing set
+  const { error } = await supabase.rpc('replace_item_links', {
+    p_from_id: fromId,
+    p_from_type: fromType,
+    p_links: selected.map(item => ({ to_id: item.id, to_type: item.type, relation: item.relation })),
+  });
+
+  if (error) throw error;
+};
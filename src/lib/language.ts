@@ -0,0 +1,45 @@
+// Language guessing shared by command rendering and the lang: search filter
+
+export const LANGUAGES = ['bash', 'sql', 'python', 'javascript'] as const;
+
+export type Language = typeof LANGUAGES[number];
+
+// Helper function to detect programming language
+export const detectLanguage = (command: string): Language => {
+  const cmd = command.toLowerCase().trim();
+  
+  // Shell/Bash commands
+  if (cmd.startsWith('docker') || cmd.startsWith('kubectl') || cmd.startsWith('git') ||
+      cmd.startsWith('npm') || cmd.startsWith('yarn') || cmd.startsWith('pip') ||
+      cmd.startsWith('curl') || cmd.startsWith('wget') || cmd.startsWith('ssh') ||
+      cmd.startsWith('rsync') || cmd.startsWith('grep') || cmd.startsWith('awk') ||
+      cmd.startsWith('sed') || cmd.startsWith('find') || cmd.startsWith('ls') ||
+      cmd.startsWith('cd ') || cmd.startsWith('mkdir') || cmd.startsWith('rm ') ||
+      cmd.startsWith('cp ') || cmd.startsWith('mv ') || cmd.startsWith('chmod') ||
+      cmd.startsWith('chown') || cmd.startsWith('ps ') || cmd.startsWith('kill ') ||
+      cmd.startsWith('systemctl') || cmd.startsWith('service ') || cmd.startsWith('crontab')) {
+    return 'bash';
+  }
+  
+  // SQL
+  if (cmd.startsWith('select') || cmd.startsWith('insert') || cmd.startsWith('update') ||
+      cmd.startsWith('delete') || cmd.startsWith('create') || cmd.startsWith('alter') ||
+      cmd.startsWith('drop') || cmd.includes('from ') || cmd.includes('where ')) {
+    return 'sql';
+  }
+  
+  // Python
+  if (cmd.startsWith('python') || cmd.startsWith('pip') || cmd.includes('import ') ||
+      cmd.includes('def ') || cmd.includes('class ') || cmd.includes('print(')) {
+    return 'python';
+  }
+  
+  // JavaScript/Node
+  if (cmd.startsWith('node') || cmd.startsWith('npx') || cmd.includes('console.log') ||
+      cmd.includes('function') || cmd.includes('const ') || cmd.includes('let ')) {
+    return 'javascript';
+  }
+  
+  // Default to bash for most CLI commands
+  return 'bash';
+};
@@ -0,0 +1,219 @@
+// IndexedDB-backed offline cache with one record per command, note, link and
+// collection
+
+const DB_NAME = 'devnotes-offline';
+const LEGACY_CACHE_KEY = 'devnotes-offline-data';
+
+export type RecordStore = 'commands' | 'notes' | 'note_links' | 'command_usage' | 'collections';
+
+export interface CachedRecord {
+  id: string;
+  updated_at?: string;
+  tags?: string[] | null;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+// migrations[n] upgrades the schema from version n to n + 1. Append new
+// entries here and never edit existing ones; DB_VERSION follows the length.
+const migrations: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // v1: per-record stores indexed by tag and updated_at, plus the localStorage
+  // blob the cache used to live in
+  (db, tx) => {
+    for (const name of ['commands', 'notes'] as RecordStore[]) {
+      const store = db.createObjectStore(name, { keyPath: 'id' });
+      store.createIndex('tags', 'tags', { multiEntry: true });
+      store.createIndex('updated_at', 'updated_at');
+    }
+    const meta = db.createObjectStore('meta');
+
+    try {
+      const legacy = JSON.parse(localStorage.getItem(LEGACY_CACHE_KEY) || 'null');
+      if (legacy) {
+        (legacy.commands || []).forEach((record: CachedRecord) => tx.objectStore('commands').put(record));
+        (legacy.notes || []).forEach((record: CachedRecord) => tx.objectStore('notes').put(record));
+        if (legacy.lastSync) meta.put(legacy.lastSync, 'lastSync');
+      }
+    } catch (error) {
+      console.error('Failed to import legacy offline cache:', error);
+    }
+  },
+  // v2: note_links, looked up from either end
+  (db) => {
+    const store = db.createObjectStore('note_links', { keyPath: 'id' });
+    store.createIndex('from_id', 'from_id');
+    store.createIndex('to_id', 'to_id');
+  },
+  // v3: per-command usage totals, keyed by command id
+  (db) => {
+    db.createObjectStore('command_usage', { keyPath: 'id' });
+  },
+  // v4: collections
+  (db) => {
+    db.createObjectStore('collections', { keyPath: 'id' });
+  },
+];
+
+export const DB_VERSION = migrations.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const openOfflineDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        migrations[version](db, tx);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; let it proceed and reopen lazily
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      localStorage.removeItem(LEGACY_CACHE_KEY);
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const getAllRecords = async <T extends CachedRecord>(storeName: RecordStore): Promise<T[]> => {
+  const db = await openOfflineDb();
+  return requestToPromise(db.transaction(storeName).objectStore(storeName).getAll());
+};
+
+export const getRecord = async <T extends CachedRecord>(storeName: RecordStore, id: string): Promise<T | undefined> => {
+  const db = await openOfflineDb();
+  return requestToPromise(db.transaction(storeName).objectStore(storeName).get(id));
+};
+
+export const getRecordsByIndex = async <T extends CachedRecord>(
+  storeName: RecordStore,
+  indexName: string,
+  value: IDBValidKey
+): Promise<T[]> => {
+  const db = await openOfflineDb();
+  return requestToPromise(db.transaction(storeName).objectStore(storeName).index(indexName).getAll(value));
+};
+
+export const getRecordsByTag = <T extends CachedRecord>(storeName: RecordStore, tag: string): Promise<T[]> =>
+  getRecordsByIndex<T>(storeName, 'tags', tag);
+
+export const getRecentRecords = async <T extends CachedRecord>(storeName: RecordStore, limit: number): Promise<T[]> => {
+  const db = await openOfflineDb();
+  const index = db.transaction(storeName).objectStore(storeName).index('updated_at');
+
+  return new Promise((resolve, reject) => {
+    const records: T[] = [];
+    const request = index.openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor && records.length < limit) {
+        records.push(cursor.value);
+        cursor.continue();
+      } else {
+        resolve(records);
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const putRecord = async (storeName: RecordStore, record: CachedRecord): Promise<void> => {
+  const db = await openOfflineDb();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).put(record);
+  return transactionDone(tx);
+};
+
+export const deleteRecord = async (storeName: RecordStore, id: string): Promise<void> => {
+  const db = await openOfflineDb();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).delete(id);
+  return transactionDone(tx);
+};
+
+// Records without updated_at (note_links) are compared by content instead
+const fingerprint = (record: CachedRecord) => record.updated_at ?? JSON.stringify(record);
+
+// Mirror a full server listing into the store, writing only records that
+// changed and removing ones that no longer exist on the server.
+export const replaceRecords = async (storeName: RecordStore, records: CachedRecord[]): Promise<void> => {
+  const db = await openOfflineDb();
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  const existing = await requestToPromise(store.getAll()) as CachedRecord[];
+
+  const known = new Map(existing.map(record => [record.id, fingerprint(record)]));
+  const incoming = new Set(records.map(record => record.id));
+
+  for (const record of records) {
+    if (known.get(record.id) !== fingerprint(record)) store.put(record);
+  }
+  for (const id of known.keys()) {
+    if (!incoming.has(id)) store.delete(id);
+  }
+
+  return transactionDone(tx);
+};
+
+export const getMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openOfflineDb();
+  return requestToPromise(db.transaction('meta').objectStore('meta').get(key));
+};
+
+export const setMeta = async (key: string, value: unknown): Promise<void> => {
+  const db = await openOfflineDb();
+  const tx = db.transaction('meta', 'readwrite');
+  tx.objectStore('meta').put(value, key);
+  return transactionDone(tx);
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
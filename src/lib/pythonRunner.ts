@@ -0,0 +1,118 @@
+// Runs Python snippets in the browser with Pyodide. The interpreter lives in a
+// Web Worker, so a runaway program is stopped by terminating the worker; the
+// next run starts a fresh one and loads the interpreter again.
+
+import { EMPTY_INPUTS, ExecutionResult, KILLED_EXIT_CODE, RunInputs, RunOptions, stoppedResult } from './execution';
+
+export interface PythonWorkerRequest {
+  code: string;
+  inputs: RunInputs;
+}
+
+export type PythonWorkerMessage =
+  | { type: 'started' }
+  | { type: 'stdout' | 'stderr'; text: string }
+  | { type: 'done'; exitCode: number; errorLine?: number }
+  | { type: 'failed'; message: string };
+
+export interface PythonRunOptions extends RunOptions {
+  timeoutMs?: number;
+  // Characters across stdout and stderr; the program is stopped past it
+  maxOutputLength?: number;
+}
+
+const DEFAULT_OPTIONS = {
+  inputs: EMPTY_INPUTS,
+  timeoutMs: 10000,
+  maxOutputLength: 64 * 1024,
+};
+
+let worker: Worker | null = null;
+
+const getWorker = () => {
+  worker ??= new Worker(new URL('./pythonWorker.ts', import.meta.url), { type: 'module' });
+  return worker;
+};
+
+const resetWorker = () => {
+  worker?.terminate();
+  worker = null;
+};
+
+export const runPython = (code: string, options: PythonRunOptions = {}): Promise<ExecutionResult> => {
+  const { inputs, timeoutMs, maxOutputLength, onOutput, signal } = { ...DEFAULT_OPTIONS, ...options };
+  if (signal?.aborted) return Promise.resolve(stoppedResult());
+  const target = getWorker();
+
+  return new Promise((resolve, reject) => {
+    let stdout = '';
+    let stderr = '';
+    let startedAt = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const elapsed = () => (startedAt ? Math.round(performance.now() - startedAt) : 0);
+
+    const settle = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', handleAbort);
+      target.onmessage = null;
+      target.onerror = null;
+    };
+
+    const stop = (stopReason: string) => {
+      settle();
+      resetWorker();
+      resolve({ output: stdout, error: stderr || undefined, executionTime: elapsed(), exitCode: KILLED_EXIT_CODE, stopReason });
+    };
+
+    const fail = (message: string) => {
+      settle();
+      resetWorker();
+      reject(new Error(message));
+    };
+
+    const handleAbort = () => {
+      settle();
+      resetWorker();
+      resolve(stoppedResult(stdout, stderr, elapsed()));
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    target.onmessage = (event: MessageEvent<PythonWorkerMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'started':
+          // Loading the interpreter and packages doesn't count towards the limit
+          startedAt = performance.now();
+          timer = setTimeout(() => stop(`Execution timeout (${timeoutMs / 1000} seconds)`), timeoutMs);
+          break;
+        case 'stdout':
+        case 'stderr': {
+          const room = maxOutputLength - stdout.length - stderr.length;
+          const text = message.text.slice(0, Math.max(room, 0));
+          if (message.type === 'stdout') stdout += text;
+          else stderr += text;
+          if (text) onOutput?.({ stream: message.type, text });
+          if (message.text.length > room) stop('Output limit reached; the program was stopped');
+          break;
+        }
+        case 'done':
+          settle();
+          resolve({
+            output: stdout,
+            error: stderr || undefined,
+            executionTime: elapsed(),
+            exitCode: message.exitCode,
+            errorLine: message.errorLine,
+          });
+          break;
+        case 'failed':
+          fail(`Python could not be loaded: ${message.message}`);
+          break;
+      }
+    };
+    target.onerror = (event) => fail(event.message || 'The Python worker crashed');
+
+    target.postMessage({ code, inputs } satisfies PythonWorkerRequest);
+  });
+};
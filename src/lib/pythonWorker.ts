@@ -0,0 +1,108 @@
+/// <reference lib="webworker" />
+// Runs Python with Pyodide (CPython compiled to WebAssembly) off the main
+// thread. The interpreter is loaded once per worker; pythonRunner terminates
+// the worker to stop a run that goes past its time limit.
+
+import { loadPyodide, version, type PyodideAPI } from 'pyodide';
+import type { PythonWorkerMessage, PythonWorkerRequest } from './pythonRunner';
+
+// The npm package only ships the loader and the standard library; packages
+// such as numpy come from the matching CDN release
+const INDEX_URL = `https://cdn.jsdelivr.net/pyodide/v${version}/full/`;
+
+// Runs the snippet as __main__ in a fresh namespace each time, with the run's
+// arguments in sys.argv and its variables added to os.environ. Tracebacks are
+// trimmed to the snippet's own frames (plus any library frames below them)
+// and the last line of main.py involved is reported back.
+const HARNESS = `
+import linecache, os, sys, traceback
+
+def _devnotes_run(source, args, env):
+    # Lets tracebacks quote the offending lines of the snippet
+    linecache.cache["main.py"] = (len(source), None, source.splitlines(True), "main.py")
+    saved_argv, saved_environ = sys.argv, dict(os.environ)
+    sys.argv = ["main.py", *args]
+    os.environ.update(env)
+    try:
+        exec(compile(source, "main.py", "exec"), {"__name__": "__main__"})
+        return 0, None
+    except SystemExit as exc:
+        if exc.code is None or isinstance(exc.code, int):
+            return exc.code or 0, None
+        print(exc.code, file=sys.stderr)
+        return 1, None
+    except BaseException as exc:
+        tb = exc.__traceback__.tb_next
+        traceback.print_exception(type(exc), exc, tb)
+        line = exc.lineno if isinstance(exc, SyntaxError) and exc.filename == "main.py" else None
+        for frame, lineno in traceback.walk_tb(tb):
+            if frame.f_code.co_filename == "main.py":
+                line = lineno
+        return 1, line
+    finally:
+        sys.stdout.flush()
+        sys.stderr.flush()
+        sys.argv = saved_argv
+        os.environ.clear()
+        os.environ.update(saved_environ)
+`;
+
+const post = (message: PythonWorkerMessage) => self.postMessage(message);
+
+// Forwards output as it is written, without waiting for a full line
+const writer = (type: 'stdout' | 'stderr') => {
+  const decoder = new TextDecoder();
+  return {
+    write: (buffer: Uint8Array) => {
+      post({ type, text: decoder.decode(buffer, { stream: true }) });
+      return buffer.length;
+    },
+  };
+};
+
+// input() and sys.stdin read the run's stdin and then hit end of file, instead
+// of falling back to window.prompt
+const stdinOf = (text: string) => {
+  let data: Uint8Array | null = text ? new TextEncoder().encode(text) : null;
+  return {
+    stdin: () => {
+      const chunk = data;
+      data = null;
+      return chunk;
+    },
+  };
+};
+
+let interpreter: Promise<PyodideAPI> | null = null;
+
+const getInterpreter = () => {
+  interpreter ??= loadPyodide({ indexURL: INDEX_URL }).then((pyodide) => {
+    pyodide.runPython(HARNESS);
+    pyodide.setStdout(writer('stdout'));
+    pyodide.setStderr(writer('stderr'));
+    return pyodide;
+  });
+  return interpreter;
+};
+
+self.onmessage = async (event: MessageEvent<PythonWorkerRequest>) => {
+  const { code, inputs } = event.data;
+  try {
+    const pyodide = await getInterpreter();
+    // Fetch any bundled packages (numpy, pandas, ...) the snippet imports
+    await pyodide.loadPackagesFromImports(code);
+    pyodide.setStdin(stdinOf(inputs.stdin));
+
+    post({ type: 'started' });
+    const run = pyodide.globals.get('_devnotes_run');
+    const args = pyodide.toPy(inputs.args);
+    const env = pyodide.toPy(inputs.env);
+    const result = run(code, args, env);
+    const [exitCode, errorLine] = result.toJs();
+    for (const proxy of [result, run, args, env]) proxy.destroy();
+
+    post({ type: 'done', exitCode, errorLine: errorLine ?? undefined });
+  } catch (error) {
+    post({ type: 'failed', message: (error as Error).message });
+  }
+};
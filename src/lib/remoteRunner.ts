@@ -0,0 +1,96 @@
+// Runs code in the code-executor edge function (JavaScript, at the moment).
+// Output arrives as server-sent events while the program runs; stopping a run
+// cancels the response, which makes the function kill the program.
+
+import { supabase } from '@/integrations/supabase/client';
+import { EMPTY_INPUTS, ExecutionResult, OutputStream, RunOptions, stoppedResult } from './execution';
+
+// Last event of a run, after all of its output
+type RunSummary = Pick<ExecutionResult, 'exitCode' | 'executionTime' | 'stopReason'>;
+
+interface ServerEvent {
+  event: string;
+  data: unknown;
+}
+
+// Events are separated by a blank line; each has an `event:` and a JSON `data:` line
+const parseEvent = (block: string): ServerEvent | null => {
+  let event = 'message';
+  let data = '';
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data += line.slice(5).trim();
+  }
+  return data ? { event, data: JSON.parse(data) } : null;
+};
+
+export const runRemotely = async (
+  code: string,
+  language: string,
+  { inputs = EMPTY_INPUTS, onOutput, signal }: RunOptions = {}
+): Promise<ExecutionResult> => {
+  const session = await supabase.auth.getSession();
+  if (!session.data.session?.access_token) {
+    throw new Error('Authentication required');
+  }
+  if (signal?.aborted) return stoppedResult();
+
+  // An event stream comes back as the raw Response for us to read
+  const { data, error } = await supabase.functions.invoke('code-executor', {
+    body: {
+      code,
+      language,
+      ...inputs,
+    },
+    headers: {
+      Authorization: `Bearer ${session.data.session.access_token}`,
+      Accept: 'text/event-stream',
+    },
+  });
+
+  if (error) throw error;
+
+  const reader = (data as Response).body.getReader();
+  const stop = () => reader.cancel().catch(() => {});
+  signal?.addEventListener('abort', stop);
+  if (signal?.aborted) stop();
+
+  const decoder = new TextDecoder();
+  const output: Record<OutputStream, string> = { stdout: '', stderr: '' };
+  let summary: RunSummary | null = null;
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        const event = parseEvent(block);
+        if (event?.event === 'stdout' || event?.event === 'stderr') {
+          const text = event.data as string;
+          output[event.event] += text;
+          onOutput?.({ stream: event.event, text });
+        } else if (event?.event === 'result') {
+          summary = event.data as RunSummary;
+        }
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', stop);
+  }
+
+  if (signal?.aborted) return stoppedResult(output.stdout, output.stderr);
+  if (!summary) throw new Error('The connection to the code executor was lost');
+
+  return {
+    output: output.stdout,
+    error: output.stderr || undefined,
+    ...summary,
+    executionTime: Math.round(summary.executionTime),
+  };
+};
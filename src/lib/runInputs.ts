@@ -0,0 +1,145 @@
+// Stdin, arguments and environment variables a command is run with in the
+// code runner. They are edited as text (a shell-style argument line and
+// KEY=value lines) and saved with the command in its run_inputs column.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { PendingAction } from '@/lib/syncEngine';
+import { EMPTY_INPUTS, RunInputs } from '@/lib/execution';
+
+// Mirror the limits the code-executor edge function enforces
+export const MAX_STDIN_LENGTH = 64 * 1024;
+export const MAX_ARGS = 100;
+export const MAX_ENV_VARS = 100;
+
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+type QueueAction = (action: Omit<PendingAction, 'id' | 'timestamp'>) => void;
+
+interface OfflineOptions {
+  isOnline: boolean;
+  addPendingAction: QueueAction;
+}
+
+// Splits an argument line the way a shell would, minus expansions: quotes
+// group words and backslashes escape the next character
+export const parseArgs = (line: string): string[] => {
+  const args: string[] = [];
+  let current = '';
+  let inWord = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote === "'") {
+      if (char === "'") quote = null;
+      else current += char;
+    } else if (quote === '"') {
+      if (char === '"') quote = null;
+      else if (char === '\\' && i + 1 < line.length && '"\\$`'.includes(line[i + 1])) current += line[++i];
+      else current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inWord = true;
+    } else if (char === '\\' && i + 1 < line.length) {
+      current += line[++i];
+      inWord = true;
+    } else if (/\s/.test(char)) {
+      if (inWord) args.push(current);
+      current = '';
+      inWord = false;
+    } else {
+      current += char;
+      inWord = true;
+    }
+  }
+
+  if (quote) throw new Error(`Unterminated ${quote === '"' ? 'double' : 'single'} quote in arguments`);
+  if (inWord) args.push(current);
+  if (args.length > MAX_ARGS) throw new Error(`Too many arguments (max ${MAX_ARGS})`);
+  return args;
+};
+
+// Quotes only the arguments that need it, so parseArgs gives them back as they are
+export const formatArgs = (args: string[]): string =>
+  args.map(arg => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`)).join(' ');
+
+// One KEY=value per line; blank lines and # comments are skipped and values
+// are taken as written, without quotes being removed
+export const parseEnv = (text: string): Record<string, string> => {
+  const env: Record<string, string> = {};
+  text.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.replace(/\r$/, '');
+    if (!line.trim() || line.trim().startsWith('#')) return;
+
+    const separator = line.indexOf('=');
+    const name = (separator === -1 ? line : line.slice(0, separator)).trim();
+    if (separator === -1 || !ENV_NAME.test(name)) {
+      throw new Error(`Environment line ${index + 1} should look like NAME=value`);
+    }
+    env[name] = line.slice(separator + 1);
+  });
+
+  if (Object.keys(env).length > MAX_ENV_VARS) {
+    throw new Error(`Too many environment variables (max ${MAX_ENV_VARS})`);
+  }
+  return env;
+};
+
+export const formatEnv = (env: Record<string, string>): string =>
+  Object.entries(env).map(([name, value]) => `${name}=${value}`).join('\n');
+
+export const validateStdin = (stdin: string): string => {
+  if (stdin.length > MAX_STDIN_LENGTH) {
+    throw new Error(`Stdin is too long: ${stdin.length.toLocaleString()} characters, the limit is ${MAX_STDIN_LENGTH.toLocaleString()}`);
+  }
+  return stdin;
+};
+
+export const hasRunInputs = ({ stdin, args, env }: RunInputs) =>
+  stdin !== '' || args.length > 0 || Object.keys(env).length > 0;
+
+// Saved inputs come from the database or the offline cache; anything
+// malformed is ignored rather than breaking the runner
+export const toRunInputs = (value: Json | null | undefined): RunInputs => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return EMPTY_INPUTS;
+
+  const { stdin, args, env } = value;
+  return {
+    stdin: typeof stdin === 'string' ? stdin : '',
+    args: Array.isArray(args) ? args.filter((arg): arg is string => typeof arg === 'string') : [],
+    env:
+      env && typeof env === 'object' && !Array.isArray(env)
+        ? Object.fromEntries(Object.entries(env).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+        : {},
+  };
+};
+
+// The fields of the command that changed, to merge into a loaded copy
+export type SavedRunInputs = Pick<Tables<'commands'>, 'run_inputs'> & Partial<Pick<Tables<'commands'>, 'updated_at'>>;
+
+// Only run_inputs is sent, so saving them never overwrites an edit made
+// elsewhere; commands without inputs store null. Online, the save moves the
+// row's updated_at on, and later offline edits have to be based on the new one.
+export const saveRunInputs = async (
+  commandId: string,
+  inputs: RunInputs,
+  { isOnline, addPendingAction }: OfflineOptions
+): Promise<SavedRunInputs> => {
+  const { stdin, args, env } = inputs;
+  const runInputs: Json | null = hasRunInputs(inputs) ? { stdin, args, env } : null;
+
+  if (!isOnline) {
+    addPendingAction({ type: 'update', table: 'commands', data: { id: commandId, run_inputs: runInputs } });
+    return { run_inputs: runInputs };
+  }
+
+  const { data, error } = await supabase
+    .from('commands')
+    .update({ run_inputs: runInputs })
+    .eq('id', commandId)
+    .select('updated_at')
+    .single();
+  if (error) throw error;
+  return { run_inputs: runInputs, updated_at: data.updated_at };
+};
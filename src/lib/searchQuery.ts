@@ -0,0 +1,370 @@
+// Parser and evaluator for the search box query language:
+//
+//   docker compose          every word must match (AND)
+//   "exact phrase"          phrase match
+//   -word, -tag:old         negation
+//   a OR b                  either side; binds looser than AND
+//   (a OR b) c              grouping
+//   tag:docker type:note lang:sql
+//   created:>2025-01-01 created:<=2025-02-01 before:2025-01-01 after:2025-01-01
+//
+// Any other word with a colon in it (localhost:8080, C:\) is plain text.
+
+import { format } from 'date-fns';
+import { detectLanguage, LANGUAGES } from '@/lib/language';
+
+export type ItemKind = 'command' | 'note';
+type DateOp = '<' | '<=' | '>' | '>=' | '=';
+
+export type QueryNode =
+  | { kind: 'and'; children: QueryNode[] }
+  | { kind: 'or'; children: QueryNode[] }
+  | { kind: 'not'; child: QueryNode }
+  | { kind: 'text'; value: string; phrase: boolean }
+  | { kind: 'tag'; value: string }
+  | { kind: 'type'; value: ItemKind }
+  | { kind: 'lang'; value: string }
+  | { kind: 'created'; op: DateOp; date: string };
+
+export interface SearchableItem {
+  type: ItemKind;
+  title: string;
+  // Command text or note content
+  body: string;
+  description?: string | null;
+  tags?: string[] | null;
+  created_at: string;
+}
+
+export const FIELD_KEYS = [
+  { key: 'tag', description: 'Items with this tag' },
+  { key: 'type', description: 'command or note' },
+  { key: 'lang', description: `Command language: ${LANGUAGES.join(', ')}` },
+  { key: 'created', description: 'Creation date, e.g. created:>2025-01-01' },
+  { key: 'before', description: 'Created before a date' },
+  { key: 'after', description: 'Created after a date' },
+];
+
+const TYPE_VALUES: Record<string, ItemKind> = {
+  command: 'command',
+  commands: 'command',
+  cmd: 'command',
+  note: 'note',
+  notes: 'note',
+};
+
+const LANG_ALIASES: Record<string, string> = {
+  sh: 'bash',
+  shell: 'bash',
+  py: 'python',
+  js: 'javascript',
+  node: 'javascript',
+};
+
+export class SearchQueryError extends Error {
+  // Zero-based offset into the query where the problem starts
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} (at column ${position + 1})`);
+    this.name = 'SearchQueryError';
+    this.position = position;
+  }
+}
+
+type Token =
+  | { type: 'word'; value: string; start: number }
+  | { type: 'phrase'; value: string; start: number }
+  | { type: 'field'; field: string; value: string; start: number }
+  | { type: 'or' | 'not' | 'lparen' | 'rparen'; start: number };
+
+const FIELD_NAMES = new Set(FIELD_KEYS.map(({ key }) => key));
+
+const isBreak = (char: string | undefined) => char === undefined || /[\s()]/.test(char);
+
+const readQuoted = (input: string, start: number): { value: string; end: number } => {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) throw new SearchQueryError('Unterminated quote', start);
+  return { value: input.slice(start + 1, close), end: close + 1 };
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', start: i });
+      i++;
+    } else if (char === '-') {
+      if (isBreak(input[i + 1])) throw new SearchQueryError('Nothing to exclude after "-"', i);
+      tokens.push({ type: 'not', start: i });
+      i++;
+    } else if (char === '"') {
+      const { value, end } = readQuoted(input, i);
+      tokens.push({ type: 'phrase', value, start: i });
+      i = end;
+    } else {
+      const start = i;
+      while (!isBreak(input[i]) && input[i] !== ':' && input[i] !== '"') i++;
+
+      const field = input.slice(start, i).toLowerCase();
+      if (input[i] === ':' && FIELD_NAMES.has(field)) {
+        i++;
+        let value = '';
+        if (input[i] === '"') {
+          const quoted = readQuoted(input, i);
+          value = quoted.value;
+          i = quoted.end;
+        } else {
+          const valueStart = i;
+          while (!isBreak(input[i])) i++;
+          value = input.slice(valueStart, i);
+        }
+        tokens.push({ type: 'field', field, value, start });
+      } else {
+        while (!isBreak(input[i])) i++;
+        const value = input.slice(start, i);
+        tokens.push(value === 'OR' ? { type: 'or', start } : { type: 'word', value, start });
+      }
+    }
+  }
+
+  return tokens;
+};
+
+const parseDate = (value: string, position: number): string => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const date = match && new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  if (!date || date.getMonth() !== Number(match[2]) - 1 || date.getDate() !== Number(match[3])) {
+    throw new SearchQueryError(`"${value}" is not a valid date; use YYYY-MM-DD`, position);
+  }
+  return value;
+};
+
+const fieldNode = (token: Extract<Token, { type: 'field' }>): QueryNode => {
+  const { field, start } = token;
+  const value = token.value.trim();
+  if (!value) throw new SearchQueryError(`"${field}:" needs a value`, start);
+
+  switch (field) {
+    case 'tag':
+      return { kind: 'tag', value: value.toLowerCase() };
+    case 'type': {
+      const kind = TYPE_VALUES[value.toLowerCase()];
+      if (!kind) throw new SearchQueryError(`type: must be "command" or "note", not "${value}"`, start);
+      return { kind: 'type', value: kind };
+    }
+    case 'lang': {
+      const lang = LANG_ALIASES[value.toLowerCase()] ?? value.toLowerCase();
+      if (!(LANGUAGES as readonly string[]).includes(lang)) {
+        throw new SearchQueryError(`lang: must be one of ${LANGUAGES.join(', ')}, not "${value}"`, start);
+      }
+      return { kind: 'lang', value: lang };
+    }
+    case 'created': {
+      const [, op = '=', date] = /^(<=|>=|<|>|=)?(.*)$/.exec(value)!;
+      return { kind: 'created', op: op as DateOp, date: parseDate(date, start) };
+    }
+    case 'before':
+      return { kind: 'created', op: '<', date: parseDate(value, start) };
+    case 'after':
+      return { kind: 'created', op: '>', date: parseDate(value, start) };
+    default:
+      // tokenize only makes fields of the keys above
+      throw new SearchQueryError(`Unknown filter "${field}:"`, start);
+  }
+};
+
+// Returns null for an empty query, which matches everything
+export const parseSearchQuery = (input: string): QueryNode | null => {
+  const tokens = tokenize(input);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.type === 'or') {
+      const orToken = tokens[pos++];
+      const next = peek();
+      if (!next || next.type === 'or' || next.type === 'rparen') {
+        throw new SearchQueryError('OR needs a search term on both sides', orToken.start);
+      }
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children: QueryNode[] = [];
+    while (pos < tokens.length && peek().type !== 'or' && peek().type !== 'rparen') {
+      children.push(parseUnary());
+    }
+    if (children.length === 0) {
+      const token = peek();
+      if (token?.type === 'or') throw new SearchQueryError('OR needs a search term on both sides', token.start);
+      if (token?.type === 'rparen') throw new SearchQueryError('Empty parentheses', token.start);
+      throw new SearchQueryError('Expected a search term', input.length);
+    }
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (token.type === 'not') {
+      pos++;
+      if (!peek() || peek().type === 'or' || peek().type === 'rparen') {
+        throw new SearchQueryError('Nothing to exclude after "-"', token.start);
+      }
+      return { kind: 'not', child: parseUnary() };
+    }
+    return parseAtom();
+  };
+
+  const parseAtom = (): QueryNode => {
+    const token = tokens[pos++];
+    switch (token.type) {
+      case 'lparen': {
+        const node = parseOr();
+        if (peek()?.type !== 'rparen') {
+          throw new SearchQueryError('Missing ")" for this "("', token.start);
+        }
+        pos++;
+        return node;
+      }
+      case 'phrase':
+        if (!token.value.trim()) throw new SearchQueryError('Empty quotes', token.start);
+        return { kind: 'text', value: token.value.toLowerCase(), phrase: true };
+      case 'word':
+        return { kind: 'text', value: token.value.toLowerCase(), phrase: false };
+      case 'field':
+        return fieldNode(token);
+      default:
+        throw new SearchQueryError('Unexpected token', token.start);
+    }
+  };
+
+  if (tokens.length === 0) return null;
+
+  const root = parseOr();
+  if (pos < tokens.length) {
+    // parseOr only stops early on a ")" that has no matching "("
+    throw new SearchQueryError('Unmatched ")"', tokens[pos].start);
+  }
+  return root;
+};
+
+// The words of a query made only of plain terms, which the server-side
+// full-text search can answer. Null when the query needs local evaluation.
+export const plainSearchTerms = (node: QueryNode | null): string[] | null => {
+  if (!node) return null;
+  if (node.kind === 'text') return node.phrase ? null : [node.value];
+  if (node.kind !== 'and') return null;
+
+  const terms: string[] = [];
+  for (const child of node.children) {
+    const childTerms = plainSearchTerms(child);
+    if (!childTerms) return null;
+    terms.push(...childTerms);
+  }
+  return terms;
+};
+
+const compareDay = (day: string, op: DateOp, date: string) => {
+  switch (op) {
+    case '<': return day < date;
+    case '<=': return day <= date;
+    case '>': return day > date;
+    case '>=': return day >= date;
+    default: return day === date;
+  }
+};
+
+export const matchesQuery = (node: QueryNode | null, item: SearchableItem): boolean => {
+  if (!node) return true;
+
+  switch (node.kind) {
+    case 'and':
+      return node.children.every(child => matchesQuery(child, item));
+    case 'or':
+      return node.children.some(child => matchesQuery(child, item));
+    case 'not':
+      return !matchesQuery(node.child, item);
+    case 'text':
+      return [item.title, item.body, item.description, ...(item.tags || [])]
+        .some(field => field?.toLowerCase().includes(node.value));
+    case 'tag':
+      return (item.tags || []).some(tag => tag.toLowerCase() === node.value);
+    case 'type':
+      return item.type === node.value;
+    case 'lang':
+      return item.type === 'command' && detectLanguage(item.body) === node.value;
+    case 'created':
+      // Compare calendar days in local time, which is how dates are typed in
+      return compareDay(format(new Date(item.created_at), 'yyyy-MM-dd'), node.op, node.date);
+  }
+};
+
+export interface Completion {
+  label: string;
+  // Replacement for the token under the cursor
+  insert: string;
+  description?: string;
+}
+
+export interface CompletionResult {
+  from: number;
+  to: number;
+  items: Completion[];
+}
+
+// Suggestions for the token under the cursor: field keys while typing a bare
+// word, and values once the key is complete.
+export const getCompletions = (input: string, cursor: number, tags: string[]): CompletionResult | null => {
+  let from = cursor;
+  while (from > 0 && !/[\s()]/.test(input[from - 1])) from--;
+  let to = cursor;
+  while (to < input.length && !/[\s()]/.test(input[to])) to++;
+
+  let token = input.slice(from, cursor);
+  let prefix = '';
+  if (token.startsWith('-')) {
+    prefix = '-';
+    token = token.slice(1);
+  }
+  if (token.startsWith('"')) return null;
+
+  const colon = token.indexOf(':');
+  let items: Completion[];
+
+  if (colon === -1) {
+    if (!token) return null;
+    items = FIELD_KEYS
+      .filter(({ key }) => key.startsWith(token.toLowerCase()) && key !== token.toLowerCase())
+      .map(({ key, description }) => ({ label: `${key}:`, insert: `${prefix}${key}:`, description }));
+  } else {
+    const field = token.slice(0, colon).toLowerCase();
+    const partial = token.slice(colon + 1).replace(/^"/, '').toLowerCase();
+    const values =
+      field === 'tag' ? tags
+      : field === 'type' ? ['command', 'note']
+      : field === 'lang' ? [...LANGUAGES]
+      : field === 'created' ? ['>', '<', '>=', '<='].map(op => `${op}${format(new Date(), 'yyyy-MM-dd')}`)
+      : [];
+
+    items = values
+      .filter(value => value.toLowerCase().startsWith(partial) && value.toLowerCase() !== partial)
+      .slice(0, 8)
+      .map(value => {
+        const quoted = /[\s()"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+        return { label: value, insert: `${prefix}${field}:${quoted}` };
+      });
+  }
+
+  return items.length > 0 ? { from, to, items } : null;
+};
@@ -0,0 +1,163 @@
+// Runs SQL snippets against a throwaway PostgreSQL (PGlite, compiled to
+// WebAssembly) in a Web Worker. Every run gets a fresh in-memory database, so
+// nothing a snippet creates or drops outlives it.
+
+import { EMPTY_INPUTS, ExecutionResult, KILLED_EXIT_CODE, RunInputs, RunOptions, stoppedResult } from './execution';
+
+export interface SqlWorkerRequest {
+  code: string;
+  inputs: RunInputs;
+}
+
+export interface SqlColumn {
+  name: string;
+  // Sorted as numbers rather than text
+  numeric: boolean;
+}
+
+// Values are shown the way Postgres prints them, e.g. 't' or '2024-01-15 10:30:00'
+export type SqlCell = string | null;
+
+export interface SqlResultSet {
+  // Command tag of the statement, e.g. SELECT, INSERT or CREATE
+  command?: string;
+  rowCount?: number;
+  columns: SqlColumn[];
+  rows: SqlCell[][];
+  // Only the first MAX_ROWS rows are kept
+  truncated: boolean;
+}
+
+export interface SqlError {
+  message: string;
+  detail?: string;
+  hint?: string;
+  // 1-based position in the snippet, when Postgres reports one
+  line?: number;
+  column?: number;
+}
+
+export type SqlWorkerMessage =
+  | { type: 'started' }
+  | { type: 'done'; resultSets: SqlResultSet[]; notices: string[]; error?: SqlError }
+  | { type: 'failed'; message: string };
+
+// Results come back whole, so onOutput is never called
+export interface SqlRunOptions extends RunOptions {
+  timeoutMs?: number;
+}
+
+export interface SqlResult extends ExecutionResult {
+  resultSets: SqlResultSet[];
+  // NOTICE and WARNING messages raised by the statements
+  notices: string[];
+}
+
+export const MAX_ROWS = 1000;
+
+const DEFAULT_OPTIONS = {
+  inputs: EMPTY_INPUTS,
+  timeoutMs: 10000,
+};
+
+// Postgres types whose text form sorts as a number
+const NUMERIC_TYPE_IDS = new Set([20, 21, 23, 26, 700, 701, 1700]);
+
+export const isNumericType = (dataTypeId: number) => NUMERIC_TYPE_IDS.has(dataTypeId);
+
+// Point at the error the way psql does, with the offending line and a caret
+export const formatSqlError = (code: string, error: SqlError) => {
+  const lines = [`ERROR:  ${error.message}`];
+  if (error.line !== undefined && error.column !== undefined) {
+    const prefix = `LINE ${error.line}: `;
+    lines.push(prefix + code.split('\n')[error.line - 1], `${' '.repeat(prefix.length + error.column - 1)}^`);
+  }
+  if (error.detail) lines.push(`DETAIL:  ${error.detail}`);
+  if (error.hint) lines.push(`HINT:  ${error.hint}`);
+  return lines.join('\n');
+};
+
+let worker: Worker | null = null;
+
+const getWorker = () => {
+  worker ??= new Worker(new URL('./sqlWorker.ts', import.meta.url), { type: 'module' });
+  return worker;
+};
+
+const resetWorker = () => {
+  worker?.terminate();
+  worker = null;
+};
+
+export const runSql = (code: string, options: SqlRunOptions = {}): Promise<SqlResult> => {
+  const { inputs, timeoutMs, signal } = { ...DEFAULT_OPTIONS, ...options };
+  if (signal?.aborted) return Promise.resolve({ ...stoppedResult(), resultSets: [], notices: [] });
+  const target = getWorker();
+
+  return new Promise((resolve, reject) => {
+    let startedAt = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const elapsed = () => (startedAt ? Math.round(performance.now() - startedAt) : 0);
+
+    const settle = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', handleAbort);
+      target.onmessage = null;
+      target.onerror = null;
+    };
+
+    const fail = (message: string) => {
+      settle();
+      resetWorker();
+      reject(new Error(message));
+    };
+
+    const handleAbort = () => {
+      settle();
+      resetWorker();
+      resolve({ ...stoppedResult('', '', elapsed()), resultSets: [], notices: [] });
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    target.onmessage = (event: MessageEvent<SqlWorkerMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'started':
+          // Starting the database doesn't count towards the limit
+          startedAt = performance.now();
+          timer = setTimeout(() => {
+            settle();
+            resetWorker();
+            resolve({
+              output: '',
+              executionTime: elapsed(),
+              exitCode: KILLED_EXIT_CODE,
+              stopReason: `Execution timeout (${timeoutMs / 1000} seconds)`,
+              resultSets: [],
+              notices: [],
+            });
+          }, timeoutMs);
+          break;
+        case 'done':
+          settle();
+          resolve({
+            output: '',
+            error: message.error && formatSqlError(code, message.error),
+            executionTime: elapsed(),
+            exitCode: message.error ? 1 : 0,
+            errorLine: message.error?.line,
+            resultSets: message.resultSets,
+            notices: message.notices,
+          });
+          break;
+        case 'failed':
+          fail(`The SQL sandbox failed: ${message.message}`);
+          break;
+      }
+    };
+    target.onerror = (event) => fail(event.message || 'The SQL worker crashed');
+
+    target.postMessage({ code, inputs } satisfies SqlWorkerRequest);
+  });
+};
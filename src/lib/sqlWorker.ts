@@ -0,0 +1,87 @@
+/// <reference lib="webworker" />
+// Runs each SQL snippet it is sent against a brand-new in-memory PGlite
+// database and closes the database again afterwards.
+//
+// SQL has no argv or environment, so the run's inputs become settings:
+// current_setting('run.args')::text[] holds the arguments and
+// current_setting('env.NAME') each variable. Stdin is what
+// COPY ... FROM '/dev/blob' reads.
+
+import { PGlite, messages, types, type Results } from '@electric-sql/pglite';
+import type { RunInputs } from './execution';
+import {
+  MAX_ROWS,
+  isNumericType,
+  type SqlCell,
+  type SqlError,
+  type SqlResultSet,
+  type SqlWorkerMessage,
+  type SqlWorkerRequest,
+} from './sqlRunner';
+
+// Keep values as the text Postgres sent rather than Dates, numbers and objects
+const RAW_TEXT = Object.fromEntries(Object.keys(types.parsers).map((typeId) => [typeId, (value: string) => value]));
+
+// Arrays are parsed regardless; show anything that isn't text as JSON
+const toCell = (value: unknown): SqlCell =>
+  typeof value === 'string' || value === null ? (value as SqlCell) : JSON.stringify(value);
+
+const toResultSet = (result: Results): SqlResultSet => ({
+  command: result.command,
+  rowCount: result.rowCount,
+  columns: result.fields.map((field) => ({ name: field.name, numeric: isNumericType(field.dataTypeID) })),
+  rows: (result.rows as unknown[][]).slice(0, MAX_ROWS).map((row) => row.map(toCell)),
+  truncated: result.rows.length > MAX_ROWS,
+});
+
+// Postgres reports where an error is as a 1-based offset into the whole query
+const toSqlError = (code: string, error: messages.DatabaseError): SqlError => {
+  const sqlError: SqlError = { message: error.message, detail: error.detail, hint: error.hint };
+  const position = Number(error.position);
+  if (!position) return sqlError;
+
+  const linesBefore = code.slice(0, position - 1).split('\n');
+  return { ...sqlError, line: linesBefore.length, column: linesBefore[linesBefore.length - 1].length + 1 };
+};
+
+const post = (message: SqlWorkerMessage) => self.postMessage(message);
+
+const applyInputs = async (db: PGlite, { args, env }: RunInputs) => {
+  await db.query(`SELECT set_config('run.args', $1::text[]::text, false)`, [args]);
+  for (const [name, value] of Object.entries(env)) {
+    await db.query(`SELECT set_config('env.' || $1, $2, false)`, [name, value]);
+  }
+};
+
+self.onmessage = async (event: MessageEvent<SqlWorkerRequest>) => {
+  const { code, inputs } = event.data;
+
+  let db: PGlite;
+  try {
+    db = await PGlite.create();
+    await applyInputs(db, inputs);
+  } catch (error) {
+    post({ type: 'failed', message: (error as Error).message });
+    return;
+  }
+
+  post({ type: 'started' });
+  const notices: string[] = [];
+  try {
+    const results = await db.exec(code, {
+      rowMode: 'array',
+      parsers: RAW_TEXT,
+      onNotice: (notice) => notices.push(`${notice.severity}:  ${notice.message}`),
+      blob: inputs.stdin ? new Blob([inputs.stdin]) : undefined,
+    });
+    post({ type: 'done', resultSets: results.map(toResultSet), notices });
+  } catch (error) {
+    if (error instanceof messages.DatabaseError) {
+      post({ type: 'done', resultSets: [], notices, error: toSqlError(code, error) });
+    } else {
+      post({ type: 'failed', message: (error as Error).message });
+    }
+  } finally {
+    await db.close().catch(() => {});
+  }
+};
@@ -0,0 +1,230 @@
+// Replays queued offline changes against Supabase
+
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+
+export type SyncTable = 'commands' | 'notes' | 'note_links' | 'command_usage_events' | 'collections';
+
+// Tables whose rows are created, updated and deleted by id
+type RecordTable = Exclude<SyncTable, 'note_links' | 'command_usage_events'>;
+
+// Columns that identify a link independently of its row id
+const LINK_ENDPOINTS = 'from_id,to_id,from_type,to_type';
+
+// Fields of the queued row, keyed by its client-generated id. Narrowed to the
+// table's Insert or Update type where they are used.
+export type PendingRow = { id?: string } & Record<string, unknown>;
+
+export interface PendingAction {
+  id: string;
+  type: 'create' | 'update' | 'delete';
+  table: SyncTable;
+  data: PendingRow;
+  timestamp: string;
+  attempts?: number;
+  lastError?: string;
+  // updated_at of the server row an offline edit was based on
+  baseUpdatedAt?: string;
+  // Server row that moved on since baseUpdatedAt; set until the user merges
+  conflict?: Record<string, unknown>;
+}
+
+export interface SyncResult {
+  synced: string[];
+  failed: { id: string; error: string }[];
+  conflicts: string[];
+}
+
+interface SyncOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  onActionSynced?: (action: PendingAction, updatedAt?: string) => void;
+  onActionFailed?: (action: PendingAction, error: string) => void;
+  onConflict?: (action: PendingAction, server: Record<string, unknown>) => void;
+}
+
+export class SyncConflictError extends Error {
+  server: Record<string, unknown>;
+
+  constructor(server: Record<string, unknown>) {
+    super('This item was changed elsewhere since it was edited offline');
+    this.name = 'SyncConflictError';
+    this.server = server;
+  }
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Key used to keep later actions for the same record behind an earlier failure
+export const recordKey = (action: PendingAction) => `${action.table}:${action.data?.id}`;
+
+// Every action is keyed by its client-generated id, so replaying it a second
+// time (e.g. after a lost response) leaves the server in the same state.
+// Resolves with the server's new updated_at for creates and updates.
+export const replayAction = async (action: PendingAction): Promise<string | undefined> => {
+  const { id, ...fields } = action.data || {};
+  if (!id) throw new Error('Pending action is missing a record id');
+
+  if (action.table === 'note_links') {
+    await replayLinkAction(action);
+    return undefined;
+  }
+
+  if (action.table === 'command_usage_events') {
+    await replayUsageEvent(action);
+    return undefined;
+  }
+
+  switch (action.type) {
+    case 'create': {
+      const { data, error } = await supabase
+        .from(action.table)
+        .upsert(action.data as TablesInsert<RecordTable>, { onConflict: 'id' })
+        .select('updated_at')
+        .maybeSingle();
+      if (error) throw error;
+      return data?.updated_at;
+    }
+    case 'update': {
+      // Edits made offline only apply if nobody changed the row since; the
+      // check is part of the write so nothing can land in between
+      let query = supabase
+        .from(action.table)
+        .update(fields as TablesUpdate<RecordTable>)
+        .eq('id', id);
+      if (action.baseUpdatedAt) query = query.eq('updated_at', action.baseUpdatedAt);
+
+      const { data, error } = await query.select('updated_at').maybeSingle();
+      if (error) throw error;
+      if (data || !action.baseUpdatedAt) return data?.updated_at;
+
+      // Nothing matched: either the row was changed elsewhere or it is gone
+      const { data: server, error: fetchError } = await supabase
+        .from(action.table)
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+      if (fetchError) throw fetchError;
+      if (server) throw new SyncConflictError(server);
+      return undefined;
+    }
+    case 'delete': {
+      const { error } = await supabase
+        .from(action.table)
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+      return undefined;
+    }
+    default:
+      throw new Error(`Unknown pending action type: ${action.type}`);
+  }
+};
+
+// Links are matched on their endpoints rather than their id, so a link added
+// offline that already exists on the server (or was removed there) is a no-op.
+const replayLinkAction = async (action: PendingAction): Promise<void> => {
+  const link = action.data as TablesInsert<'note_links'>;
+  const { from_id, to_id, from_type, to_type } = link;
+
+  if (action.type === 'delete') {
+    const { error } = await supabase
+      .from('note_links')
+      .delete()
+      .match({ from_id, to_id, from_type, to_type });
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase
+    .from('note_links')
+    .upsert(link, { onConflict: LINK_ENDPOINTS, ignoreDuplicates: action.type === 'create' });
+  if (error) throw error;
+};
+
+// Usage events are append-only. One for a command deleted in the meantime
+// (a foreign key violation) is dropped rather than retried forever.
+const replayUsageEvent = async (action: PendingAction): Promise<void> => {
+  const { error } = await supabase
+    .from('command_usage_events')
+    .upsert(action.data as TablesInsert<'command_usage_events'>, { onConflict: 'id', ignoreDuplicates: true });
+  if (error && error.code !== '23503') throw error;
+};
+
+export const withRetry = async <T>(
+  fn: () => Promise<T>,
+  maxAttempts = 3,
+  baseDelayMs = 500,
+  shouldRetry: (error: unknown) => boolean = () => true
+): Promise<T> => {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (!shouldRetry(error)) throw error;
+      lastError = error;
+      if (attempt < maxAttempts - 1) {
+        await wait(baseDelayMs * 2 ** attempt);
+      }
+    }
+  }
+
+  throw lastError;
+};
+
+export const replayQueue = async (
+  actions: PendingAction[],
+  { maxAttempts = 3, baseDelayMs = 500, onActionSynced, onActionFailed, onConflict }: SyncOptions = {}
+): Promise<SyncResult> => {
+  const result: SyncResult = { synced: [], failed: [], conflicts: [] };
+  const blocked = new Set<string>();
+  // Latest updated_at we produced per record, so consecutive offline edits of
+  // the same item are not mistaken for conflicts with each other
+  const rebased = new Map<string, string>();
+
+  for (const queued of actions) {
+    const key = recordKey(queued);
+    const action = rebased.has(key) && queued.baseUpdatedAt
+      ? { ...queued, baseUpdatedAt: rebased.get(key) }
+      : queued;
+
+    // Applying a later change before an earlier one failed would reorder history
+    if (blocked.has(key) || action.conflict) {
+      blocked.add(key);
+      if (!action.conflict) {
+        const error = 'Waiting for an earlier change to the same item';
+        result.failed.push({ id: action.id, error });
+        onActionFailed?.(action, error);
+      }
+      continue;
+    }
+
+    try {
+      // Retrying cannot make a conflict go away
+      const updatedAt = await withRetry(
+        () => replayAction(action),
+        maxAttempts,
+        baseDelayMs,
+        (error) => !(error instanceof SyncConflictError)
+      );
+      if (updatedAt) rebased.set(key, updatedAt);
+      result.synced.push(action.id);
+      onActionSynced?.(action, updatedAt);
+    } catch (error) {
+      blocked.add(key);
+
+      if (error instanceof SyncConflictError) {
+        result.conflicts.push(action.id);
+        onConflict?.(action, error.server);
+      } else {
+        const message = (error as Error)?.message || 'Unknown sync error';
+        result.failed.push({ id: action.id, error: message });
+        onActionFailed?.(action, message);
+      }
+    }
+  }
+
+  return result;
+};
@@ -10,57 +10,33 @@ export const sanitizeText = (text: string): string => {
     .slice(0, 1000); // Limit length
 };
 
+// Mirrors the notes_content_length check constraint in the database
+export const NOTE_CONTENT_MAX_LENGTH = 100000;
+
+// The cap sanitizeText used to apply to note bodies; notes saved at exactly
+// this length before the limit was lifted were probably cut off
+export const LEGACY_NOTE_CONTENT_LENGTH = 1000;
+
+// Note bodies are stored verbatim and escaped when rendered, so HTML,
+// generics and shell redirects survive. Only the size is checked.
+export const validateNoteContent = (content: string): string => {
+  const trimmed = content.trim();
+  if (trimmed.length > NOTE_CONTENT_MAX_LENGTH) {
+    throw new Error(
+      `Note is too long: ${trimmed.length.toLocaleString()} characters, the limit is ${NOTE_CONTENT_MAX_LENGTH.toLocaleString()}`
+    );
+  }
+  return trimmed;
+};
+
+// Commands are stored, not executed, so nothing is rejected here; see
+// analyzeCommandRisks in commandRisk.ts for the warnings shown instead.
 export const sanitizeCommand = (command: string): string => {
   if (!command) return '';
   
-  // Enhanced command sanitization
-  const sanitized = command
+  return command
     .trim()
     .slice(0, 2000); // Limit length
-  
-  // Enhanced dangerous patterns detection
-  const dangerousPatterns = [
-    /rm\s+-rf\s+\//, // rm -rf /
-    /:\(\)\{\s*:\s*\|\s*:\s*&\s*\}\s*;/, // Fork bomb pattern
-    /eval\s*\(/, // eval commands
-    /exec\s*\(/, // exec commands
-    /\$\(.*\)/, // Command substitution
-    /`.*`/, // Backtick command execution
-    /;\s*rm\s+/, // Command chaining with rm
-    /\|\s*rm\s+/, // Piped rm commands
-    /wget\s+/, // Download commands
-    /curl\s+.*\|/, // Piped curl commands
-    /nc\s+.*-e/, // Netcat with command execution
-    /bash\s+-i/, // Interactive bash
-    /sh\s+-i/, // Interactive shell
-    /\/dev\/tcp\//, // TCP redirections
-    /mkfifo\s+/, // Named pipes
-    /chmod\s+\+x/, // Making files executable
-    /sudo\s+/, // Sudo commands
-    /su\s+/, // Switch user
-    /passwd\s+/, // Password changes
-    /useradd\s+/, // User management
-    /userdel\s+/, // User management
-    /crontab\s+/, // Cron modifications
-    /systemctl\s+/, // System service control
-    /service\s+/, // Service control
-    /mount\s+/, // Filesystem mounting
-    /umount\s+/, // Filesystem unmounting
-    /dd\s+.*of=/, // Disk operations
-    /fdisk\s+/, // Disk partitioning
-    /format\s+/, // Disk formatting
-    />.*\/etc\//, // Writing to system directories
-    />.*\/var\//, // Writing to system directories
-    />.*\/usr\//, // Writing to system directories
-  ];
-  
-  for (const pattern of dangerousPatterns) {
-    if (pattern.test(sanitized)) {
-      throw new Error('Command contains potentially dangerous patterns');
-    }
-  }
-  
-  return sanitized;
 };
 
 export const validateEmail = (email: string): boolean => {
@@ -74,4 +50,16 @@ export const validateTags = (tags: string[]): string[] => {
     .map(tag => sanitizeText(tag))
     .filter(tag => tag.length > 0 && tag.length <= 50)
     .slice(0, 10); // Limit number of tags
-};
\ No newline at end of file
+};
+
+// Mirrors the collections name check constraint in the database
+export const COLLECTION_NAME_MAX_LENGTH = 100;
+
+export const validateCollectionName = (name: string): string => {
+  const sanitized = sanitizeText(name);
+  if (!sanitized) throw new Error('Collection name is required');
+  if (sanitized.length > COLLECTION_NAME_MAX_LENGTH) {
+    throw new Error(`Collection name is too long (max ${COLLECTION_NAME_MAX_LENGTH} characters)`);
+  }
+  return sanitized;
+};
@@ -0,0 +1,176 @@
+// [[Title]] links inside note bodies. [[cmd:Title]] points at a command,
+// [[note:Title]] at a note, and a bare [[Title]] tries notes first.
+
+import { getAllRecords } from '@/lib/offlineDb';
+import { DEFAULT_RELATION, ItemType, LinkedItem, NoteLink, SelectedLink } from '@/lib/itemLinks';
+import type { Tables } from '@/integrations/supabase/types';
+
+export interface WikiLinkRef {
+  type: ItemType | null;
+  title: string;
+  // Range of the whole [[...]] in the source
+  start: number;
+  end: number;
+}
+
+export interface TitleIndex {
+  notes: Map<string, LinkedItem>;
+  commands: Map<string, LinkedItem>;
+}
+
+const WIKI_LINK = /\[\[(?:(cmd|command|note):)?([^[\]\n]+?)\]\]/gi;
+
+// Fenced blocks and inline code spans, where [[ ]] is literal text
+const CODE = /(```|~~~)[\s\S]*?(?:\1|$)|`[^`\n]*`/g;
+
+const titleKey = (title: string) => title.trim().toLowerCase();
+
+const codeRanges = (content: string): [number, number][] =>
+  Array.from(content.matchAll(CODE), match => [match.index ?? 0, (match.index ?? 0) + match[0].length]);
+
+export const parseWikiLinks = (content: string): WikiLinkRef[] => {
+  const code = codeRanges(content);
+
+  return Array.from(content.matchAll(WIKI_LINK))
+    .filter(match => !code.some(([start, end]) => (match.index ?? 0) >= start && (match.index ?? 0) < end))
+    .map(match => {
+      const prefix = match[1]?.toLowerCase();
+      return {
+        type: prefix ? (prefix === 'note' ? 'note' : 'command') : null,
+        title: match[2].trim(),
+        start: match.index ?? 0,
+        end: (match.index ?? 0) + match[0].length,
+      };
+    });
+};
+
+// When two items share a title the most recently updated one wins
+export const buildTitleIndex = (
+  notes: Pick<Tables<'notes'>, 'id' | 'title' | 'content' | 'updated_at'>[],
+  commands: Pick<Tables<'commands'>, 'id' | 'title' | 'command' | 'updated_at'>[]
+): TitleIndex => {
+  const byUpdated = (a: { updated_at: string }, b: { updated_at: string }) => a.updated_at.localeCompare(b.updated_at);
+
+  return {
+    notes: new Map([...notes].sort(byUpdated).map(note => [
+      titleKey(note.title),
+      { id: note.id, title: note.title, type: 'note' as const, content: note.content },
+    ])),
+    commands: new Map([...commands].sort(byUpdated).map(cmd => [
+      titleKey(cmd.title),
+      { id: cmd.id, title: cmd.title, type: 'command' as const, command: cmd.command },
+    ])),
+  };
+};
+
+// Built from the offline cache so links resolve the same way offline
+export const loadTitleIndex = async (): Promise<TitleIndex> => {
+  const [notes, commands] = await Promise.all([
+    getAllRecords<Tables<'notes'>>('notes'),
+    getAllRecords<Tables<'commands'>>('commands'),
+  ]);
+  return buildTitleIndex(notes, commands);
+};
+
+export const resolveWikiLink = (ref: Pick<WikiLinkRef, 'type' | 'title'>, index: TitleIndex): LinkedItem | undefined => {
+  const key = titleKey(ref.title);
+  if (ref.type === 'note') return index.notes.get(key);
+  if (ref.type === 'command') return index.commands.get(key);
+  return index.notes.get(key) ?? index.commands.get(key);
+};
+
+// Distinct items a note body links to, leaving out the note itself
+export const wikiLinkTargets = (content: string, index: TitleIndex, selfId?: string): SelectedLink[] => {
+  const targets = new Map<string, SelectedLink>();
+  for (const ref of parseWikiLinks(content)) {
+    const item = resolveWikiLink(ref, index);
+    if (item && item.id !== selfId) targets.set(`${item.type}:${item.id}`, { id: item.id, title: item.title, type: item.type, relation: DEFAULT_RELATION });
+  }
+  return Array.from(targets.values());
+};
+
+// The links a save should write: what the selector holds, minus wiki links
+// that were removed from the body, plus the ones the body has now. A wiki
+// link that is already selected keeps the relation chosen for it.
+//
+// Rows do not record whether a link came from the body or the selector, so a
+// removed wiki link only takes its row with it when nothing marks the row as
+// picked by hand: it was there when the editor opened and still has the
+// default relation. Links added in the selector, or given another relation,
+// stay.
+export const mergeWikiLinks = (
+  selected: SelectedLink[],
+  existing: Pick<NoteLink, 'to_id' | 'to_type'>[],
+  previousWiki: SelectedLink[],
+  currentWiki: SelectedLink[]
+): SelectedLink[] => {
+  const key = (link: Pick<SelectedLink, 'id' | 'type'>) => `${link.type}:${link.id}`;
+  const loaded = new Set(existing.map(link => key({ id: link.to_id, type: link.to_type as ItemType })));
+  const current = new Set(currentWiki.map(key));
+  const dropped = new Set(previousWiki.map(key).filter(k => !current.has(k)));
+  const onlyFromWiki = (link: SelectedLink) =>
+    dropped.has(key(link)) && loaded.has(key(link)) && link.relation === DEFAULT_RELATION;
+
+  const merged = new Map(selected.filter(link => !onlyFromWiki(link)).map(link => [key(link), link]));
+  currentWiki.forEach(link => {
+    if (!merged.has(key(link))) merged.set(key(link), link);
+  });
+  return Array.from(merged.values());
+};
+
+export interface ReferenceSnippet {
+  before: string;
+  match: string;
+  after: string;
+}
+
+const SNIPPET_CONTEXT = 60;
+
+// The text around the place a source item refers to a target: its
+// [[wiki link]] if it has one, otherwise a plain mention of the title
+export const referenceSnippet = (
+  source: string,
+  target: Pick<LinkedItem, 'title' | 'type'>
+): ReferenceSnippet | null => {
+  const key = titleKey(target.title);
+  const ref = parseWikiLinks(source).find(
+    link => titleKey(link.title) === key && (link.type === null || link.type === target.type)
+  );
+  const mention = source.toLowerCase().indexOf(key);
+
+  const start = ref ? ref.start : mention;
+  if (start === -1) return null;
+  const end = ref ? ref.end : mention + key.length;
+
+  const from = Math.max(0, start - SNIPPET_CONTEXT);
+  const to = Math.min(source.length, end + SNIPPET_CONTEXT);
+  return {
+    before: (from > 0 ? '…' : '') + source.slice(from, start).replace(/\s+/g, ' ').trimStart(),
+    match: source.slice(start, end),
+    after: source.slice(end, to).replace(/\s+/g, ' ').trimEnd() + (to < source.length ? '…' : ''),
+  };
+};
+
+export const WIKI_HREF_PREFIX = '#wiki/';
+export const BROKEN_WIKI_HREF_PREFIX = '#wiki-broken/';
+
+const escapeLabel = (text: string) => text.replace(/[[\]\\]/g, '\\$&');
+
+// Rewrite [[...]] into ordinary Markdown links with fragment hrefs that the
+// renderer recognises, so resolution happens before react-markdown parses.
+export const linkifyWikiLinks = (content: string, index: TitleIndex): string => {
+  let result = '';
+  let last = 0;
+
+  for (const ref of parseWikiLinks(content)) {
+    const item = resolveWikiLink(ref, index);
+    const href = item
+      ? `${WIKI_HREF_PREFIX}${item.type}/${item.id}`
+      // encodeURIComponent leaves parentheses, which would end the Markdown link
+      : `${BROKEN_WIKI_HREF_PREFIX}${encodeURIComponent(ref.title).replace(/\(/g, '%28').replace(/\)/g, '%29')}`;
+    result += `${content.slice(last, ref.start)}[${escapeLabel(ref.title)}](${href})`;
+    last = ref.end;
+  }
+
+  return result + content.slice(last);
+};
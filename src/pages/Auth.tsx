@@ -6,21 +6,22 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { Loader2, Terminal } from 'lucide-react';
 
 const Auth = () => {
   const { signIn, signUp, user, loading } = useAuth();
   const { toast } = useToast();
+  const location = useLocation();
   const [isLoading, setIsLoading] = useState(false);
   const [formData, setFormData] = useState({
     email: '',
     password: '',
   });
 
-  // Redirect if already authenticated
+  // Redirect if already authenticated, back to the page that sent us here if any
   if (user) {
-    return <Navigate to="/" replace />;
+    return <Navigate to={(location.state as { from?: string } | null)?.from || '/'} replace />;
   }
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
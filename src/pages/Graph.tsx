@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link, Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useOfflineStorage } from '@/hooks/useOfflineStorage';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Loader2, Network } from 'lucide-react';
+import OfflineIndicator from '@/components/OfflineIndicator';
+import GraphCanvas, { GraphColorMode } from '@/components/GraphCanvas';
+import { itemPath } from '@/lib/itemLinks';
+import { buildGraph, filterGraphByTag, GraphData, GraphNode, TYPE_COLORS, UNTAGGED_COLOR } from '@/lib/graph';
+
+const ALL_TAGS = '__all__';
+
+const Graph = () => {
+  const { user, loading } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { isOnline, lastSyncedAt, getCachedData } = useOfflineStorage();
+
+  const [graph, setGraph] = useState<GraphData>({ nodes: [], edges: [] });
+  const [dataLoading, setDataLoading] = useState(true);
+  const [tagFilter, setTagFilter] = useState(ALL_TAGS);
+  const [colorBy, setColorBy] = useState<GraphColorMode>('type');
+  const [highlightOrphans, setHighlightOrphans] = useState(true);
+
+  useEffect(() => {
+    if (user) fetchGraph();
+  }, [user, isOnline, lastSyncedAt]);
+
+  const loadFromCache = () => {
+    const cachedData = getCachedData();
+    if (!cachedData) return false;
+    setGraph(buildGraph(cachedData.notes, cachedData.commands, cachedData.noteLinks));
+    return true;
+  };
+
+  const fetchGraph = async () => {
+    if (!user) return;
+    setDataLoading(true);
+
+    try {
+      if (!isOnline) {
+        if (!loadFromCache()) setGraph({ nodes: [], edges: [] });
+        return;
+      }
+
+      // Only what the graph draws, not full note bodies
+      const [commandsResult, notesResult, linksResult] = await Promise.all([
+        supabase.from('commands').select('id, title, tags').eq('user_id', user.id),
+        supabase.from('notes').select('id, title, tags').eq('user_id', user.id),
+        supabase.from('note_links').select('id, from_id, to_id').eq('user_id', user.id),
+      ]);
+
+      if (commandsResult.error) throw commandsResult.error;
+      if (notesResult.error) throw notesResult.error;
+      if (linksResult.error) throw linksResult.error;
+
+      setGraph(buildGraph(notesResult.data || [], commandsResult.data || [], linksResult.data || []));
+    } catch (error) {
+      if (!loadFromCache()) {
+        toast({
+          variant: 'destructive',
+          title: 'Error loading graph',
+          description: (error as Error).message,
+        });
+      }
+    } finally {
+      setDataLoading(false);
+    }
+  };
+
+  const allTags = useMemo(
+    () => Array.from(new Set(graph.nodes.flatMap(node => node.tags))).sort(),
+    [graph]
+  );
+
+  const visibleGraph = useMemo(
+    () => filterGraphByTag(graph, tagFilter === ALL_TAGS ? null : tagFilter),
+    [graph, tagFilter]
+  );
+
+  const orphanCount = visibleGraph.nodes.filter(node => node.degree === 0).length;
+
+  const openNode = (node: GraphNode) => navigate(itemPath(node.type, node.id));
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user) return <Navigate to="/auth" replace state={{ from: location.pathname }} />;
+
+  return (
+    <div className="h-screen flex flex-col bg-gradient-subtle">
+      <OfflineIndicator />
+      <header className="border-b bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to="/" aria-label="Back to dashboard">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <Network className="h-6 w-6 text-primary" />
+            <h1 className="text-xl font-bold">Graph</h1>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <Select value={tagFilter} onValueChange={setTagFilter}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Filter by tag" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TAGS}>All tags</SelectItem>
+                {allTags.map(tag => (
+                  <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={colorBy} onValueChange={(value) => setColorBy(value as GraphColorMode)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="type">Color by type</SelectItem>
+                <SelectItem value="tag">Color by tag</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <div className="flex items-center gap-2">
+              <Switch id="highlight-orphans" checked={highlightOrphans} onCheckedChange={setHighlightOrphans} />
+              <Label htmlFor="highlight-orphans" className="text-sm whitespace-nowrap">
+                Orphans ({orphanCount})
+              </Label>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="relative flex-1 min-h-0">
+        {dataLoading && graph.nodes.length === 0 ? (
+          <div className="h-full flex items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : visibleGraph.nodes.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-muted-foreground">
+            Nothing to show yet. Add notes and commands, then link them together.
+          </div>
+        ) : (
+          <GraphCanvas
+            graph={visibleGraph}
+            colorBy={colorBy}
+            highlightOrphans={highlightOrphans}
+            onNodeClick={openNode}
+          />
+        )}
+
+        <div className="pointer-events-none absolute right-3 bottom-3 rounded-md border bg-card/80 px-3 py-2 text-xs text-muted-foreground space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="inline-block h-2.5 w-2.5 rounded-full" style={{ backgroundColor: colorBy === 'type' ? TYPE_COLORS.note : UNTAGGED_COLOR }} />
+            Note
+            <span className="inline-block h-2.5 w-2.5 ml-2" style={{ backgroundColor: colorBy === 'type' ? TYPE_COLORS.command : UNTAGGED_COLOR }} />
+            Command
+          </div>
+          <div>
+            {visibleGraph.nodes.length} items · {visibleGraph.edges.length} links · scroll to zoom, drag to pan
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Graph;
@@ -1,19 +1,55 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '@/hooks/useAuth';
-import { Navigate } from 'react-router-dom';
+import { Link, Navigate, useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Search, Plus, Terminal, FileText, LogOut, Loader2, Code } from 'lucide-react';
+import { Plus, Terminal, FileText, LogOut, Loader2, Code, HardDrive, Network } from 'lucide-react';
 import CommandCard from '@/components/CommandCard';
 import NoteCard from '@/components/NoteCard';
 import CommandForm from '@/components/CommandForm';
 import NoteForm from '@/components/NoteForm';
 import OfflineIndicator from '@/components/OfflineIndicator';
 import CodeRunner from '@/components/CodeRunner';
+import SearchResults from '@/components/SearchResults';
+import SearchInput from '@/components/SearchInput';
+import type { PaletteAction } from '@/components/CommandPalette';
+import CollectionSidebar from '@/components/CollectionSidebar';
 import { useOfflineStorage } from '@/hooks/useOfflineStorage';
+import { useCommandUsage } from '@/hooks/useCommandUsage';
+import { formatBytes, getAllRecords } from '@/lib/offlineDb';
+import { groupBacklinks, itemKey, itemPath, LinkedItem, NoteLink } from '@/lib/itemLinks';
+import {
+  applyUsageEvent,
+  fetchCommandUsage,
+  sortCommands,
+  COMMAND_SORTS,
+  CommandSort,
+  CommandUsage,
+  UsageEvent,
+} from '@/lib/commandUsage';
+import {
+  buildCollectionTree,
+  collectionPath,
+  createCollection,
+  deleteCollection,
+  fetchCollections,
+  filterByCollection,
+  moveToCollection,
+  updateCollection,
+  Collection,
+  CollectionFilter,
+  DraggedItem,
+  ITEM_DRAG_TYPE,
+} from '@/lib/collections';
+import { validateCollectionName } from '@/lib/validation';
+import { detectLanguage } from '@/lib/language';
+import { RunInputs } from '@/lib/execution';
+import { saveRunInputs, toRunInputs } from '@/lib/runInputs';
+import type { Json } from '@/integrations/supabase/types';
+import { parseSearchQuery, plainSearchTerms, matchesQuery, QueryNode } from '@/lib/searchQuery';
 
 interface Command {
   id: string;
@@ -21,6 +57,9 @@ interface Command {
   command: string;
   description?: string;
   tags?: string[];
+  collection_id?: string | null;
+  // Stdin, arguments and environment variables for the code runner
+  run_inputs?: Json | null;
   created_at: string;
   updated_at: string;
 }
@@ -30,17 +69,31 @@ interface Note {
   title: string;
   content: string;
   tags?: string[];
+  collection_id?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+const COMMAND_SORT_KEY = 'devnotes-command-sort';
+
+// The stored value may predate a sort being renamed or removed
+const loadCommandSort = (): CommandSort => {
+  const stored = localStorage.getItem(COMMAND_SORT_KEY);
+  return COMMAND_SORTS.find((sort) => sort.value === stored)?.value ?? 'created';
+};
+
+const usageById = (rows: CommandUsage[]) => Object.fromEntries(rows.map(row => [row.id, row]));
+
 const Index = () => {
   const { user, signOut, loading } = useAuth();
   const { toast } = useToast();
-  const { isOnline, cacheData, getCachedData, addPendingAction } = useOfflineStorage();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { isOnline, lastSyncedAt, storageUsage, cacheVersion, cacheData, getCachedData, addPendingAction } = useOfflineStorage();
 
   const [commands, setCommands] = useState<Command[]>([]);
   const [notes, setNotes] = useState<Note[]>([]);
+  const [noteLinks, setNoteLinks] = useState<NoteLink[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [activeTab, setActiveTab] = useState('commands');
   const [commandFormOpen, setCommandFormOpen] = useState(false);
@@ -49,12 +102,59 @@ const Index = () => {
   const [editingCommand, setEditingCommand] = useState<Command | null>(null);
   const [editingNote, setEditingNote] = useState<Note | null>(null);
   const [dataLoading, setDataLoading] = useState(true);
+  const [usage, setUsage] = useState<Record<string, CommandUsage>>({});
+  const [commandSort, setCommandSort] = useState<CommandSort>(loadCommandSort);
+  // Command currently opened in the code runner, so runs count towards it
+  const [runningCommand, setRunningCommand] = useState<Command | null>(null);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [collectionFilter, setCollectionFilter] = useState<CollectionFilter>({ kind: 'all' });
+  const trackUsage = useCommandUsage();
 
   // Always call hooks before any return
   useEffect(() => {
     if (user) fetchData();
   }, [user]);
 
+  // Pick up server state once queued offline changes have been replayed
+  useEffect(() => {
+    if (user && lastSyncedAt) fetchData();
+  }, [lastSyncedAt]);
+
+  // Usage recorded anywhere, including the command palette, lands in the cache
+  useEffect(() => {
+    if (!user) return;
+    getAllRecords<CommandUsage>('command_usage')
+      .then((rows) => {
+        if (rows.length > 0) setUsage(usageById(rows));
+      })
+      .catch((error) => console.error('Error loading cached usage:', error));
+  }, [user, cacheVersion]);
+
+  // Palette actions that need this page arrive as router state; clear it so
+  // a reload or back navigation doesn't repeat them
+  useEffect(() => {
+    const action = (location.state as { paletteAction?: PaletteAction } | null)?.paletteAction;
+    if (!action) return;
+    navigate(location.pathname, { replace: true, state: null });
+
+    switch (action) {
+      case 'new-command':
+        setEditingCommand(null);
+        setCommandFormOpen(true);
+        break;
+      case 'new-note':
+        setEditingNote(null);
+        setNoteFormOpen(true);
+        break;
+      case 'code-runner':
+        setRunningCommand(null);
+        setCodeRunnerOpen(true);
+        break;
+      default:
+        setActiveTab(action);
+    }
+  }, [location.state, location.pathname, navigate]);
+
   const fetchData = async () => {
     if (!user) return;
     setDataLoading(true);
@@ -65,6 +165,9 @@ const Index = () => {
       if (cachedData) {
         setCommands(cachedData.commands || []);
         setNotes(cachedData.notes || []);
+        setNoteLinks(cachedData.noteLinks || []);
+        setUsage(usageById(cachedData.commandUsage || []));
+        setCollections(cachedData.collections || []);
         setDataLoading(false);
         toast({
           title: 'Loaded from cache',
@@ -75,7 +178,7 @@ const Index = () => {
     }
 
     try {
-      const [commandsResult, notesResult] = await Promise.all([
+      const [commandsResult, notesResult, linksResult, collectionsData, usageData] = await Promise.all([
         supabase
           .from('commands')
           .select('*')
@@ -86,25 +189,42 @@ const Index = () => {
           .select('*')
           .eq('user_id', user.id)
           .order('created_at', { ascending: false }),
+        supabase
+          .from('note_links')
+          .select('*')
+          .eq('user_id', user.id),
+        fetchCollections(user.id),
+        // Usage totals are a nice-to-have; don't fail the whole load over them
+        fetchCommandUsage(user.id).catch((error) => {
+          console.error('Error loading command usage:', error);
+          return undefined;
+        }),
       ]);
 
       if (commandsResult.error) throw commandsResult.error;
       if (notesResult.error) throw notesResult.error;
+      if (linksResult.error) throw linksResult.error;
 
       const commandsData = commandsResult.data || [];
       const notesData = notesResult.data || [];
 
       setCommands(commandsData);
       setNotes(notesData);
+      setNoteLinks(linksResult.data || []);
+      setCollections(collectionsData);
+      if (usageData) setUsage(usageById(usageData));
       
       // Cache the data for offline use
-      cacheData(commandsData, notesData);
+      cacheData(commandsData, notesData, linksResult.data || [], usageData, collectionsData);
     } catch (error: any) {
       // If network fails, try to load from cache
       const cachedData = getCachedData();
       if (cachedData) {
         setCommands(cachedData.commands || []);
         setNotes(cachedData.notes || []);
+        setNoteLinks(cachedData.noteLinks || []);
+        setUsage(usageById(cachedData.commandUsage || []));
+        setCollections(cachedData.collections || []);
         toast({
           title: 'Loaded from cache',
           description: 'Using offline data. Will sync when online.',
@@ -121,6 +241,116 @@ const Index = () => {
     }
   };
 
+  // The card or runner has already recorded the event; keep the totals in step
+  const handleCommandUsed = (commandId: string, event: UsageEvent) => {
+    setUsage((current) => ({
+      ...current,
+      [commandId]: applyUsageEvent(current[commandId], commandId, event, new Date().toISOString()),
+    }));
+  };
+
+  const handleCommandSortChange = (sort: CommandSort) => {
+    setCommandSort(sort);
+    localStorage.setItem(COMMAND_SORT_KEY, sort);
+  };
+
+  const runCommand = (command: Command) => {
+    setRunningCommand(command);
+    setCodeRunnerOpen(true);
+  };
+
+  // Memoized so the open runner isn't reset on every render
+  const runningInputs = useMemo(
+    () => (runningCommand ? toRunInputs(runningCommand.run_inputs) : undefined),
+    [runningCommand]
+  );
+
+  // Only the list is updated; changing runningCommand would reset the open runner
+  const handleSaveRunInputs = async (inputs: RunInputs) => {
+    if (!runningCommand) return;
+    const saved = await saveRunInputs(runningCommand.id, inputs, { isOnline, addPendingAction });
+    setCommands((current) =>
+      current.map((command) => (command.id === runningCommand.id ? { ...command, ...saved } : command))
+    );
+  };
+
+  const collectionOptions = { isOnline, addPendingAction };
+
+  const collectionError = (title: string, error: unknown) =>
+    toast({
+      variant: 'destructive',
+      title,
+      description: (error as Error).message,
+    });
+
+  const handleCreateCollection = async (name: string, parentId: string | null) => {
+    if (!user) return;
+    try {
+      const collection = await createCollection({
+        userId: user.id,
+        name: validateCollectionName(name),
+        parentId,
+        ...collectionOptions,
+      });
+      setCollections((current) => [...current, collection]);
+      setCollectionFilter({ kind: 'collection', id: collection.id });
+    } catch (error) {
+      collectionError('Error creating collection', error);
+    }
+  };
+
+  const handleUpdateCollection = async (id: string, changes: Partial<Pick<Collection, 'name' | 'parent_id'>>) => {
+    try {
+      await updateCollection(collections, id, changes, collectionOptions);
+      setCollections((current) => current.map((collection) => (collection.id === id ? { ...collection, ...changes } : collection)));
+    } catch (error) {
+      collectionError('Error updating collection', error);
+    }
+  };
+
+  const handleRenameCollection = (id: string, name: string) => {
+    try {
+      handleUpdateCollection(id, { name: validateCollectionName(name) });
+    } catch (error) {
+      collectionError('Error renaming collection', error);
+    }
+  };
+
+  const handleDeleteCollection = async (id: string) => {
+    try {
+      await deleteCollection(id, collectionOptions);
+      toast({
+        title: 'Collection deleted',
+        description: isOnline ? 'Its items were moved to Unfiled.' : 'Will sync when online.',
+      });
+      if (collectionFilter.kind === 'collection') setCollectionFilter({ kind: 'all' });
+      // The server cascades to subcollections and unfiles the items
+      if (isOnline) fetchData();
+      else setCollections((current) => current.filter((collection) => collection.id !== id));
+    } catch (error) {
+      collectionError('Error deleting collection', error);
+    }
+  };
+
+  const handleMoveCollection = (id: string, parentId: string | null) => handleUpdateCollection(id, { parent_id: parentId });
+
+  const handleMoveItem = async ({ id, type }: DraggedItem, collectionId: string | null) => {
+    const move = <T extends { id: string; collection_id?: string | null }>(items: T[]) =>
+      items.map((item) => (item.id === id ? { ...item, collection_id: collectionId } : item));
+    const previous = { commands, notes };
+
+    if (type === 'command') setCommands(move);
+    else setNotes(move);
+
+    try {
+      await moveToCollection(type === 'command' ? 'commands' : 'notes', id, collectionId, collectionOptions);
+    } catch (error) {
+      setCommands(previous.commands);
+      setNotes(previous.notes);
+      collectionError(`Error moving ${type}`, error);
+    }
+  };
+
   const handleSignOut = async () => {
     const { error } = await signOut();
     if (error) {
@@ -165,28 +395,68 @@ const Index = () => {
     }
   };
 
-  const filteredCommands = commands.filter(
-    (command) =>
-      command.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      command.command.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (command.description &&
-        command.description.toLowerCase().includes(searchQuery.toLowerCase())) ||
-      (command.tags &&
-        command.tags.some((tag) =>
-          tag.toLowerCase().includes(searchQuery.toLowerCase())
-        ))
+  // Open a search hit or linked item on its own page
+  const openItem = (id: string, type: 'command' | 'note') => {
+    navigate(itemPath(type, id));
+  };
+
+  const parsedQuery = useMemo((): { node: QueryNode | null; error: string | null } => {
+    try {
+      return { node: parseSearchQuery(searchQuery), error: null };
+    } catch (error) {
+      return { node: null, error: (error as Error).message };
+    }
+  }, [searchQuery]);
+
+  const backlinks = useMemo(() => groupBacklinks(noteLinks, notes, commands), [noteLinks, notes, commands]);
+
+  const allTags = useMemo(
+    () => Array.from(new Set([...commands, ...notes].flatMap((item) => item.tags || []))).sort(),
+    [commands, notes]
   );
 
-  const filteredNotes = notes.filter(
-    (note) =>
-      note.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      note.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (note.tags &&
-        note.tags.some((tag) =>
-          tag.toLowerCase().includes(searchQuery.toLowerCase())
-        ))
+  // Plain word queries go to the ranked full-text RPC while online. Filters,
+  // phrases, negation and OR are evaluated locally, as is everything offline.
+  const serverTerms = isOnline ? plainSearchTerms(parsedQuery.node) : null;
+
+  const filteredCommands = sortCommands(
+    commands.filter((command) =>
+      matchesQuery(parsedQuery.node, {
+        type: 'command',
+        title: command.title,
+        body: command.command,
+        description: command.description,
+        tags: command.tags,
+        created_at: command.created_at,
+      })
+    ),
+    usage,
+    commandSort
+  );
+
+  const filteredNotes = notes.filter((note) =>
+    matchesQuery(parsedQuery.node, {
+      type: 'note',
+      title: note.title,
+      body: note.content,
+      tags: note.tags,
+      created_at: note.created_at,
+    })
   );
 
+  // A collection deleted elsewhere falls back to showing everything
+  const activeFilter: CollectionFilter =
+    collectionFilter.kind === 'collection' && !collections.some((collection) => collection.id === collectionFilter.id)
+      ? { kind: 'all' }
+      : collectionFilter;
+  const visibleCommands = filterByCollection(filteredCommands, collections, activeFilter);
+  const visibleNotes = filterByCollection(filteredNotes, collections, activeFilter);
+  const allItems = [...commands, ...notes];
+  const collectionTree = buildCollectionTree(collections, allItems);
+  const activePath = activeFilter.kind === 'collection' ? collectionPath(collections, activeFilter.id) : [];
+  // New items are filed into the collection being viewed
+  const newItemCollectionId = activeFilter.kind === 'collection' ? activeFilter.id : null;
+
   // Conditional returns AFTER hooks
   if (loading) {
     return (
@@ -209,6 +479,15 @@ const Index = () => {
             <h1 className="text-xl font-bold">DevNotes</h1>
           </div>
           <div className="flex items-center gap-2">
+            <kbd className="hidden md:inline-flex h-6 items-center rounded border bg-muted px-1.5 font-mono text-xs text-muted-foreground" title="Command palette">
+              {navigator.platform.toUpperCase().includes('MAC') ? '⌘' : 'Ctrl+'}K
+            </kbd>
+            <Button variant="ghost" asChild className="gap-2">
+              <Link to="/graph">
+                <Network className="h-4 w-4" />
+                Graph
+              </Link>
+            </Button>
             <Button variant="ghost" onClick={() => setCodeRunnerOpen(true)} className="gap-2">
               <Code className="h-4 w-4" />
               Run Code
@@ -223,61 +502,116 @@ const Index = () => {
 
       <main className="container mx-auto px-4 py-8">
         {/* Search Bar */}
-        <div className="mb-8 max-w-md mx-auto relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground h-4 w-4" />
-          <Input
-            placeholder="Search commands and notes..."
+        <div className="mb-8 max-w-md mx-auto">
+          <SearchInput
             value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10"
+            onChange={setSearchQuery}
+            tags={allTags}
+            error={parsedQuery.error}
           />
+          {parsedQuery.error && (
+            <p className="mt-2 text-xs text-destructive">{parsedQuery.error}</p>
+          )}
+          {storageUsage && (
+            <p className="mt-2 flex items-center justify-center gap-1 text-xs text-muted-foreground">
+              <HardDrive className="h-3 w-3" />
+              Offline storage: {formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)} used
+            </p>
+          )}
         </div>
 
-        {/* Tabs */}
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <div className="flex justify-center mb-8">
-            <TabsList className="grid w-full max-w-md grid-cols-2">
-              <TabsTrigger value="commands" className="gap-2">
-                <Terminal className="h-4 w-4" />
-                Commands ({filteredCommands.length})
-              </TabsTrigger>
-              <TabsTrigger value="notes" className="gap-2">
-                <FileText className="h-4 w-4" />
-                Notes ({filteredNotes.length})
-              </TabsTrigger>
-            </TabsList>
-          </div>
+        {serverTerms ? (
+          <SearchResults query={serverTerms.join(' ')} onSelect={openItem} />
+        ) : (
+          <div className="flex flex-col gap-6 md:flex-row">
+            <aside className="md:w-60 md:shrink-0">
+              <CollectionSidebar
+                tree={collectionTree}
+                totalCount={allItems.length}
+                unfiledCount={filterByCollection(allItems, collections, { kind: 'unfiled' }).length}
+                filter={activeFilter}
+                onFilterChange={setCollectionFilter}
+                onCreate={handleCreateCollection}
+                onRename={handleRenameCollection}
+                onDelete={handleDeleteCollection}
+                onMoveItem={handleMoveItem}
+                onMoveCollection={handleMoveCollection}
+              />
+            </aside>
+            <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 min-w-0">
+              {activePath.length > 0 && (
+                <p className="mb-4 text-center text-sm text-muted-foreground">
+                  {activePath.map((collection) => collection.name).join(' › ')}
+                </p>
+              )}
+              <div className="flex justify-center mb-8">
+                <TabsList className="grid w-full max-w-md grid-cols-2">
+                  <TabsTrigger value="commands" className="gap-2">
+                    <Terminal className="h-4 w-4" />
+                    Commands ({visibleCommands.length})
+                  </TabsTrigger>
+                  <TabsTrigger value="notes" className="gap-2">
+                    <FileText className="h-4 w-4" />
+                    Notes ({visibleNotes.length})
+                  </TabsTrigger>
+                </TabsList>
+              </div>
 
-          {/* Commands Tab */}
-          <TabsContent value="commands" className="space-y-6">
-            <TabContent
-              type="command"
-              dataLoading={dataLoading}
-              items={filteredCommands}
-              openForm={() => setCommandFormOpen(true)}
-              onEdit={(command) => {
-                setEditingCommand(command);
-                setCommandFormOpen(true);
-              }}
-              onDelete={(id) => handleDelete(id, 'commands')}
-            />
-          </TabsContent>
-
-          {/* Notes Tab */}
-          <TabsContent value="notes" className="space-y-6">
-            <TabContent
-              type="note"
-              dataLoading={dataLoading}
-              items={filteredNotes}
-              openForm={() => setNoteFormOpen(true)}
-              onEdit={(note) => {
-                setEditingNote(note);
-                setNoteFormOpen(true);
-              }}
-              onDelete={(id) => handleDelete(id, 'notes')}
-            />
-          </TabsContent>
-        </Tabs>
+              {/* Commands Tab */}
+              <TabsContent value="commands" className="space-y-6">
+                <TabContent
+                  type="command"
+                  dataLoading={dataLoading}
+                  items={visibleCommands}
+                  openForm={() => setCommandFormOpen(true)}
+                  onEdit={(command) => {
+                    setEditingCommand(command);
+                    setCommandFormOpen(true);
+                  }}
+                  onDelete={(id) => handleDelete(id, 'commands')}
+                  onRestored={fetchData}
+                  onOpenItem={openItem}
+                  backlinks={backlinks}
+                  usage={usage}
+                  onCommandUsed={handleCommandUsed}
+                  onRun={runCommand}
+                  toolbar={
+                    <Select value={commandSort} onValueChange={(value) => handleCommandSortChange(value as CommandSort)}>
+                      <SelectTrigger className="w-44" aria-label="Sort commands">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {COMMAND_SORTS.map((sort) => (
+                          <SelectItem key={sort.value} value={sort.value}>
+                            {sort.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  }
+                />
+              </TabsContent>
+
+              {/* Notes Tab */}
+              <TabsContent value="notes" className="space-y-6">
+                <TabContent
+                  type="note"
+                  dataLoading={dataLoading}
+                  items={visibleNotes}
+                  openForm={() => setNoteFormOpen(true)}
+                  onEdit={(note) => {
+                    setEditingNote(note);
+                    setNoteFormOpen(true);
+                  }}
+                  onDelete={(id) => handleDelete(id, 'notes')}
+                  onRestored={fetchData}
+                  onOpenItem={openItem}
+                  backlinks={backlinks}
+                />
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
       </main>
 
       {/* Forms */}
@@ -288,6 +622,7 @@ const Index = () => {
           if (!open) setEditingCommand(null);
         }}
         command={editingCommand}
+        collectionId={newItemCollectionId}
         onSuccess={() => {
           fetchData();
           setCommandFormOpen(false);
@@ -302,6 +637,7 @@ const Index = () => {
           if (!open) setEditingNote(null);
         }}
         note={editingNote}
+        collectionId={newItemCollectionId}
         onSuccess={() => {
           fetchData();
           setNoteFormOpen(false);
@@ -311,7 +647,18 @@ const Index = () => {
 
       <CodeRunner
         isOpen={codeRunnerOpen}
-        onOpenChange={setCodeRunnerOpen}
+        onOpenChange={(open) => {
+          setCodeRunnerOpen(open);
+          if (!open) setRunningCommand(null);
+        }}
+        initialCode={runningCommand?.command}
+        initialLanguage={runningCommand ? detectLanguage(runningCommand.command) : undefined}
+        initialInputs={runningInputs}
+        onSaveInputs={runningCommand ? handleSaveRunInputs : undefined}
+        onRun={runningCommand ? () => {
+          trackUsage(runningCommand.id, 'run');
+          handleCommandUsed(runningCommand.id, 'run');
+        } : undefined}
       />
     </div>
   );
@@ -325,6 +672,13 @@ const TabContent = ({
   openForm,
   onEdit,
   onDelete,
+  onRestored,
+  onOpenItem,
+  backlinks,
+  usage,
+  onCommandUsed,
+  onRun,
+  toolbar,
 }: {
   type: 'command' | 'note';
   dataLoading: boolean;
@@ -332,17 +686,25 @@ const TabContent = ({
   openForm: () => void;
   onEdit: (item: any) => void;
   onDelete: (id: string) => void;
+  onRestored: () => void;
+  onOpenItem?: (id: string, type: 'command' | 'note') => void;
+  backlinks: Map<string, LinkedItem[]>;
+  usage?: Record<string, CommandUsage>;
+  onCommandUsed?: (id: string, event: UsageEvent) => void;
+  onRun?: (command: Command) => void;
+  toolbar?: React.ReactNode;
 }) => {
   const EmptyIcon = type === 'command' ? Terminal : FileText;
   const label = type === 'command' ? 'Command' : 'Note';
 
   return (
     <>
-      <div className="flex justify-center">
+      <div className="flex justify-center items-center gap-2">
         <Button onClick={openForm} className="gap-2">
           <Plus className="h-4 w-4" />
           Add {label}
         </Button>
+        {toolbar}
       </div>
 
       {dataLoading ? (
@@ -361,11 +723,38 @@ const TabContent = ({
       ) : (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {items.map((item) => (
-            type === 'command' ? (
-              <CommandCard key={item.id} command={item} onEdit={onEdit} onDelete={onDelete} />
-            ) : (
-              <NoteCard key={item.id} note={item} onEdit={onEdit} onDelete={onDelete} />
-            )
+            // Dragged onto the collection sidebar to file it
+            <div
+              key={item.id}
+              draggable
+              onDragStart={(event) => {
+                event.dataTransfer.setData(ITEM_DRAG_TYPE, JSON.stringify({ id: item.id, type }));
+                event.dataTransfer.effectAllowed = 'move';
+              }}
+            >
+              {type === 'command' ? (
+                <CommandCard
+                  command={item}
+                  onEdit={onEdit}
+                  onDelete={onDelete}
+                  onRestored={onRestored}
+                  onOpenItem={onOpenItem}
+                  backlinks={backlinks.get(itemKey('command', item.id))}
+                  usage={usage?.[item.id]}
+                  onUsed={onCommandUsed && ((event) => onCommandUsed(item.id, event))}
+                  onRun={onRun}
+                />
+              ) : (
+                <NoteCard
+                  note={item}
+                  onEdit={onEdit}
+                  onDelete={onDelete}
+                  onRestored={onRestored}
+                  onOpenItem={onOpenItem}
+                  backlinks={backlinks.get(itemKey('note', item.id))}
+                />
+              )}
+            </div>
           ))}
         </div>
       )}
@@ -0,0 +1,339 @@
+import React, { useState, useEffect } from 'react';
+import { Link, Navigate, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useOfflineStorage } from '@/hooks/useOfflineStorage';
+import { useTitleIndex } from '@/hooks/useTitleIndex';
+import { useCommandUsage } from '@/hooks/useCommandUsage';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Check, Copy, Edit, FileText, History, Link2, Loader2, Terminal, Trash2 } from 'lucide-react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import OfflineIndicator from '@/components/OfflineIndicator';
+import MarkdownContent from '@/components/MarkdownContent';
+import RiskFindings from '@/components/RiskFindings';
+import LinkedItems from '@/components/LinkedItems';
+import Backlinks from '@/components/Backlinks';
+import VersionHistory from '@/components/VersionHistory';
+import TemplateFillDialog from '@/components/TemplateFillDialog';
+import CommandForm from '@/components/CommandForm';
+import NoteForm from '@/components/NoteForm';
+import { getRecord } from '@/lib/offlineDb';
+import { fetchBacklinks, itemPath, ItemType, LinkedItem } from '@/lib/itemLinks';
+import { detectLanguage } from '@/lib/language';
+import { fillTemplate, hasPlaceholders } from '@/lib/commandTemplate';
+import { parseStoredFindings } from '@/lib/commandRisk';
+import { recordUsage } from '@/lib/frecency';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Item = Tables<'notes'> | Tables<'commands'>;
+
+const TABLES = { note: 'notes', command: 'commands' } as const;
+
+interface ItemDetailProps {
+  itemType: ItemType;
+}
+
+// Full page for one note or command at /notes/:id or /commands/:id, so items
+// can be bookmarked and shared. Falls back to the offline cache like Index.
+const ItemDetail: React.FC<ItemDetailProps> = ({ itemType }) => {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { isOnline, cacheVersion, addPendingAction } = useOfflineStorage();
+  const titleIndex = useTitleIndex();
+  const trackUsage = useCommandUsage();
+
+  const [item, setItem] = useState<Item | null>(null);
+  const [itemLoading, setItemLoading] = useState(true);
+  const [editOpen, setEditOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [templateOpen, setTemplateOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [backlinks, setBacklinks] = useState<LinkedItem[]>([]);
+
+  // Following a link keeps this page mounted; don't show the last item meanwhile
+  useEffect(() => {
+    setItem(null);
+    setItemLoading(true);
+    setBacklinks([]);
+  }, [id, itemType]);
+
+  useEffect(() => {
+    if (user && id) fetchItem();
+  }, [user, id, itemType, isOnline, cacheVersion]);
+
+  useEffect(() => {
+    if (!user || !id) return;
+    fetchBacklinks(user.id, id, itemType, isOnline)
+      .then(setBacklinks)
+      .catch((error) => {
+        console.error('Error loading backlinks:', error);
+        setBacklinks([]);
+      });
+  }, [user, id, itemType, isOnline, cacheVersion]);
+
+  // Reading a note is how it gets used; commands count when copied
+  useEffect(() => {
+    if (id && itemType === 'note') recordUsage('note', id);
+  }, [id, itemType]);
+
+  const fetchItem = async () => {
+    if (!user || !id) return;
+    const table = TABLES[itemType];
+
+    try {
+      if (!isOnline) {
+        setItem((await getRecord<Item>(table, id)) ?? null);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from(table)
+        .select('*')
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setItem(data);
+    } catch {
+      setItem((await getRecord<Item>(table, id)) ?? null);
+    } finally {
+      setItemLoading(false);
+    }
+  };
+
+  const openItem = (targetId: string, type: ItemType) => navigate(itemPath(type, targetId));
+
+  const copyText = async (text: string, title: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title });
+      return true;
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to copy',
+        description: 'Could not copy to clipboard.',
+      });
+      return false;
+    }
+  };
+
+  const copyCommand = async (text: string) => {
+    if (await copyText(text, 'Copied to clipboard')) {
+      if (id) trackUsage(id, 'copy');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!item) return;
+    const table = TABLES[itemType];
+
+    try {
+      if (isOnline) {
+        const { error } = await supabase.from(table).delete().eq('id', item.id);
+        if (error) throw error;
+      } else {
+        addPendingAction({ type: 'delete', table, data: { id: item.id } });
+      }
+
+      toast({
+        title: `${itemType === 'command' ? 'Command' : 'Note'} deleted`,
+        description: isOnline ? 'Deleted successfully.' : 'Will sync when online.',
+      });
+      navigate('/', { replace: true });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: `Error deleting ${itemType}`,
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  // Come back to this page after signing in
+  if (!user) return <Navigate to="/auth" replace state={{ from: location.pathname }} />;
+
+  const command = item && 'command' in item ? item : null;
+  const note = item && 'content' in item ? item : null;
+  const findings = command ? parseStoredFindings(command.risk_findings) : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <OfflineIndicator />
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-40">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to="/" aria-label="Back to dashboard">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            {itemType === 'note' ? (
+              <FileText className="h-6 w-6 text-blue-500" />
+            ) : (
+              <Terminal className="h-6 w-6 text-green-500" />
+            )}
+            <h1 className="text-xl font-bold">{itemType === 'note' ? 'Note' : 'Command'}</h1>
+          </div>
+          {item && (
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" onClick={() => copyText(window.location.href, 'Link copied')} className="gap-2">
+                <Link2 className="h-4 w-4" />
+                Copy Link
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setHistoryOpen(true)} aria-label="History">
+                <History className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setEditOpen(true)} aria-label="Edit">
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={handleDelete}
+                className="text-destructive hover:text-destructive"
+                aria-label="Delete"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        {itemLoading && !item ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : !item ? (
+          <div className="text-center py-12 space-y-4">
+            <p className="text-muted-foreground">
+              {isOnline
+                ? `This ${itemType} doesn't exist or was deleted.`
+                : `This ${itemType} isn't in the offline cache.`}
+            </p>
+            <Button asChild variant="outline">
+              <Link to="/">Back to dashboard</Link>
+            </Button>
+          </div>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-2xl">{item.title}</CardTitle>
+              <p className="text-xs text-muted-foreground">
+                Created {new Date(item.created_at).toLocaleString()}
+                {' · '}
+                Updated {new Date(item.updated_at).toLocaleString()}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {command && (
+                <div className="space-y-3">
+                  <div className="relative rounded-md overflow-hidden">
+                    <SyntaxHighlighter
+                      language={detectLanguage(command.command)}
+                      style={oneDark}
+                      customStyle={{
+                        margin: 0,
+                        padding: '12px',
+                        fontSize: '14px',
+                        lineHeight: '1.4',
+                      }}
+                      wrapLongLines={true}
+                    >
+                      {command.command}
+                    </SyntaxHighlighter>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      className="absolute top-2 right-2 h-8 w-8 p-0"
+                      onClick={() => (hasPlaceholders(command.command) ? setTemplateOpen(true) : copyCommand(fillTemplate(command.command, {})))}
+                      aria-label="Copy command"
+                    >
+                      {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                  {command.description && (
+                    <p className="text-sm text-muted-foreground">{command.description}</p>
+                  )}
+                  {findings.length > 0 && <RiskFindings findings={findings} />}
+                </div>
+              )}
+
+              {note && (
+                <MarkdownContent content={note.content} titleIndex={titleIndex} onWikiLinkClick={openItem} />
+              )}
+
+              {item.tags && item.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {item.tags.map((tag) => (
+                    <Badge key={tag} variant="secondary" className="text-xs">
+                      {tag}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              <LinkedItems
+                itemId={item.id}
+                itemType={itemType}
+                onItemClick={(linked) => openItem(linked.id, linked.type)}
+              />
+              <Backlinks
+                itemType={itemType}
+                title={item.title}
+                sources={backlinks}
+                onItemClick={(source) => openItem(source.id, source.type)}
+              />
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      {item && (
+        <VersionHistory
+          isOpen={historyOpen}
+          onOpenChange={setHistoryOpen}
+          itemType={itemType}
+          current={command ? { ...command, content: command.command } : { ...note! }}
+          onRestored={fetchItem}
+        />
+      )}
+
+      {command && (
+        <>
+          <CommandForm isOpen={editOpen} onOpenChange={setEditOpen} command={command} onSuccess={fetchItem} />
+          <TemplateFillDialog
+            isOpen={templateOpen}
+            onOpenChange={setTemplateOpen}
+            command={command}
+            onCopy={copyCommand}
+          />
+        </>
+      )}
+
+      {note && <NoteForm isOpen={editOpen} onOpenChange={setEditOpen} note={note} onSuccess={fetchItem} />}
+    </div>
+  );
+};
+
+export default ItemDetail;
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { runJavaScript, type SandboxOptions, type SandboxResult } from './javascript.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,15 +15,29 @@ const supabase = createClient(supabaseUrl, supabaseAnonKey)
 interface ExecuteRequest {
   code: string;
   language: string;
+  stdin?: string;
+  args?: string[];
+  env?: Record<string, string>;
 }
 
+// What the program is run with, besides its code
+type RunInputs = Pick<SandboxOptions, 'stdin' | 'args' | 'env'>
+
+const MAX_STDIN_LENGTH = 64 * 1024
+const MAX_ARGS = 100
+const MAX_ENV_VARS = 100
+
 interface ExecutionResult {
   output: string;
   error?: string;
   executionTime: number;
   exitCode: number;
+  stopReason?: string;
 }
 
+// Last event of a streamed run; its output has already been sent as it came
+type RunSummary = Omit<ExecutionResult, 'output' | 'error'>
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -43,7 +58,7 @@ serve(async (req) => {
       throw new Error('Invalid or expired token')
     }
 
-    const { code, language }: ExecuteRequest = await req.json()
+    const { code, language, ...request }: ExecuteRequest = await req.json()
 
     if (!code || !language) {
       throw new Error('Code and language are required')
@@ -54,62 +69,22 @@ serve(async (req) => {
       throw new Error('Code too long (max 10,000 characters)')
     }
 
-    if (!['javascript', 'python', 'bash', 'sql'].includes(language)) {
+    // Python, SQL and Bash run in sandboxed workers in the browser and never
+    // reach this function. JavaScript runs in a QuickJS runtime that has no
+    // way out to the host, so the code itself needs no screening.
+    if (language !== 'javascript') {
       throw new Error('Unsupported language')
     }
 
-    // Security check - block dangerous patterns
-    const dangerousPatterns = [
-      /require\s*\(\s*['"]child_process['"]/, // Node.js child_process
-      /import\s+.*child_process/, // ES6 import child_process
-      /eval\s*\(/, // eval function
-      /Function\s*\(/, // Function constructor
-      /process\./, // process object access
-      /fs\./, // File system access
-      /\.exec\s*\(/, // exec methods
-      /spawn\s*\(/, // spawn processes
-      /fork\s*\(/, // fork processes
-      /__import__/, // Python import bypass
-      /exec\s*\(/, // Python exec
-      /open\s*\(/, // File operations
-      /subprocess/, // Python subprocess
-      /os\.system/, // OS system calls
-      /rm\s+-rf/, // Dangerous bash commands
-      /;\s*rm\s+/, // Command chaining with rm
-      /\|\s*rm\s+/, // Piped rm commands
-      /wget\s+/, // Download commands
-      /curl\s+/, // Download commands
-      /DROP\s+TABLE/i, // SQL drop commands
-      /DELETE\s+FROM/i, // SQL delete commands
-    ]
+    const inputs = validateInputs(request)
 
-    for (const pattern of dangerousPatterns) {
-      if (pattern.test(code)) {
-        console.warn(`Blocked dangerous code pattern for user ${user.id}: ${pattern}`)
-        throw new Error('Code contains potentially dangerous operations')
-      }
+    // Clients that accept server-sent events get output as it is written
+    if (req.headers.get('accept')?.includes('text/event-stream')) {
+      return streamJavaScript(code, inputs, req.signal)
     }
 
     const startTime = performance.now()
-    let result: ExecutionResult
-
-    switch (language) {
-      case 'javascript':
-        result = await executeJavaScript(code)
-        break
-      case 'python':
-        result = await executePython(code)
-        break
-      case 'bash':
-        result = await executeBash(code)
-        break
-      case 'sql':
-        result = await executeSQL(code)
-        break
-      default:
-        throw new Error(`Unsupported language: ${language}`)
-    }
-
+    const result = await executeJavaScript(code, inputs)
     result.executionTime = performance.now() - startTime
 
     return new Response(
@@ -142,212 +117,92 @@ serve(async (req) => {
   }
 })
 
-async function executeJavaScript(code: string): Promise<ExecutionResult> {
-  try {
-    // Create a sandboxed environment
-    const sandbox = {
-      console: {
-        log: (...args: any[]) => {
-          output.push(args.map(arg => 
-            typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)
-          ).join(' '))
-        },
-        error: (...args: any[]) => {
-          output.push('ERROR: ' + args.map(arg => String(arg)).join(' '))
-        },
-        warn: (...args: any[]) => {
-          output.push('WARN: ' + args.map(arg => String(arg)).join(' '))
-        }
-      },
-      setTimeout: globalThis.setTimeout,
-      clearTimeout: globalThis.clearTimeout,
-      Math: Math,
-      Date: Date,
-      JSON: JSON,
-      Array: Array,
-      Object: Object,
-      String: String,
-      Number: Number,
-      Boolean: Boolean,
-    }
+function validateInputs({ stdin = '', args = [], env = {} }: Omit<ExecuteRequest, 'code' | 'language'>): RunInputs {
+  if (typeof stdin !== 'string') {
+    throw new Error('stdin must be a string')
+  }
+  if (stdin.length > MAX_STDIN_LENGTH) {
+    throw new Error(`stdin too long (max ${MAX_STDIN_LENGTH.toLocaleString()} characters)`)
+  }
+  if (!Array.isArray(args) || args.some((arg) => typeof arg !== 'string')) {
+    throw new Error('args must be a list of strings')
+  }
+  if (args.length > MAX_ARGS) {
+    throw new Error(`Too many arguments (max ${MAX_ARGS})`)
+  }
+  if (typeof env !== 'object' || env === null || Object.values(env).some((value) => typeof value !== 'string')) {
+    throw new Error('env must map names to strings')
+  }
+  if (Object.keys(env).length > MAX_ENV_VARS) {
+    throw new Error(`Too many environment variables (max ${MAX_ENV_VARS})`)
+  }
 
-    const output: string[] = []
-    
-    // Wrap code in a function to capture variables
-    const wrappedCode = `
-      (function() {
-        ${code}
-      })();
-    `
+  return { stdin, args, env }
+}
 
-    // Execute with timeout
-    const timeoutId = setTimeout(() => {
-      throw new Error('Execution timeout (5 seconds)')
-    }, 5000)
+// Why the sandbox cut the program short, if it did
+function stopReason(result: SandboxResult): string | undefined {
+  if (result.timedOut) return 'Execution timeout (5 seconds)'
+  if (result.truncated) return 'Output limit reached; the program was stopped'
+  if (result.outOfMemory) return 'Memory limit reached; the program was stopped'
+}
 
-    try {
-      // Use Function constructor for safer evaluation
-      const func = new Function(...Object.keys(sandbox), wrappedCode)
-      func(...Object.values(sandbox))
-    } finally {
-      clearTimeout(timeoutId)
-    }
+async function executeJavaScript(code: string, inputs: RunInputs): Promise<ExecutionResult> {
+  const result = await runJavaScript(code, inputs)
 
-    return {
-      output: output.join('\n'),
-      exitCode: 0,
-      executionTime: 0 // Will be set by caller
-    }
-  } catch (error) {
-    return {
-      output: '',
-      error: error.message,
-      exitCode: 1,
-      executionTime: 0
-    }
+  return {
+    output: result.stdout,
+    error: result.stderr.trimEnd() || undefined,
+    exitCode: result.exitCode,
+    stopReason: stopReason(result),
+    executionTime: 0 // Will be set by caller
   }
 }
 
-async function executePython(code: string): Promise<ExecutionResult> {
-  try {
-    // For demo purposes, simulate Python execution
-    // In a real implementation, you'd use a Docker container or Python subprocess
-    const lines = code.split('\n')
-    const output: string[] = []
-    
-    // Simple simulation - look for print statements
-    for (const line of lines) {
-      const trimmed = line.trim()
-      if (trimmed.startsWith('print(')) {
-        const match = trimmed.match(/print\((.+)\)/)
-        if (match) {
-          try {
-            // Very basic evaluation for demo
-            let content = match[1]
-            if (content.startsWith('"') && content.endsWith('"')) {
-              content = content.slice(1, -1)
-            } else if (content.startsWith("'") && content.endsWith("'")) {
-              content = content.slice(1, -1)
-            }
-            output.push(content)
-          } catch {
-            output.push(match[1])
-          }
-        }
+// Streams a run as server-sent events: `stdout` and `stderr` events carry
+// output in the order it arrives, then a `result` event carries a RunSummary.
+// The program is stopped if the client disconnects before it finishes.
+function streamJavaScript(code: string, inputs: RunInputs, clientGone: AbortSignal): Response {
+  const encoder = new TextEncoder()
+  const cancelled = new AbortController()
+  clientGone.addEventListener('abort', () => cancelled.abort())
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Data is JSON, so output spanning several lines stays a single event
+      const send = (event: string, data: unknown) => {
+        if (cancelled.signal.aborted) return
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
       }
-    }
-
-    // Add some demo output
-    if (code.includes('fibonacci')) {
-      output.push('Fibonacci sequence:')
-      for (let i = 0; i < 10; i++) {
-        const fib = i <= 1 ? i : fibonacci(i)
-        output.push(`F(${i}) = ${fib}`)
-      }
-    }
-
-    if (code.includes('json.dumps')) {
-      output.push('{\n  "message": "Python is awesome!",\n  "numbers": [1, 2, 3, 4, 5]\n}')
-    }
-
-    return {
-      output: output.join('\n') || 'Python code executed (simulated)',
-      exitCode: 0,
-      executionTime: 0
-    }
-  } catch (error) {
-    return {
-      output: '',
-      error: error.message,
-      exitCode: 1,
-      executionTime: 0
-    }
-  }
-}
 
-async function executeBash(code: string): Promise<ExecutionResult> {
-  try {
-    const output: string[] = []
-    const lines = code.split('\n')
-    
-    // Simulate bash execution
-    for (const line of lines) {
-      const trimmed = line.trim()
-      if (trimmed.startsWith('echo ')) {
-        const content = trimmed.substring(5).replace(/"/g, '').replace(/'/g, '')
-        output.push(content)
-      } else if (trimmed.includes('for i in {1..5}')) {
-        for (let i = 1; i <= 5; i++) {
-          output.push(`Count: ${i}`)
+      const startTime = performance.now()
+      let summary: RunSummary
+      try {
+        const result = await runJavaScript(code, { ...inputs, onOutput: send, signal: cancelled.signal })
+        summary = {
+          exitCode: result.exitCode,
+          stopReason: stopReason(result),
+          executionTime: performance.now() - startTime,
         }
-      } else if (trimmed.includes('$(date)')) {
-        output.push(`Current date: ${new Date().toISOString()}`)
-      } else if (trimmed.includes('$(pwd)')) {
-        output.push('Working directory: /tmp/sandbox')
+      } catch (error) {
+        console.error('Code execution error:', error)
+        send('stderr', `${(error as Error).message}\n`)
+        summary = { exitCode: 1, executionTime: 0 }
       }
-    }
 
-    return {
-      output: output.join('\n') || 'Bash script executed (simulated)',
-      exitCode: 0,
-      executionTime: 0
-    }
-  } catch (error) {
-    return {
-      output: '',
-      error: error.message,
-      exitCode: 1,
-      executionTime: 0
-    }
-  }
+      send('result', summary)
+      if (!cancelled.signal.aborted) controller.close()
+    },
+    cancel() {
+      cancelled.abort()
+    },
+  })
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    },
+  })
 }
-
-async function executeSQL(code: string): Promise<ExecutionResult> {
-  try {
-    // Simulate SQL execution with sample results
-    const output: string[] = []
-    
-    if (code.includes('CREATE TEMP TABLE')) {
-      output.push('CREATE TABLE')
-    }
-    
-    if (code.includes('INSERT INTO')) {
-      output.push('INSERT 0 3')
-    }
-    
-    if (code.includes('SELECT') && code.includes('FROM users')) {
-      output.push(' id |     name      |        email        |         created_at')
-      output.push('----+---------------+---------------------+----------------------------')
-      output.push('  1 | Alice Johnson | alice@example.com   | 2024-01-15 10:30:00.000000')
-      output.push('  2 | Bob Smith     | bob@example.com     | 2024-01-15 10:30:00.000000')
-      output.push('  3 | Carol Davis   | carol@example.com   | 2024-01-15 10:30:00.000000')
-      output.push('(3 rows)')
-    }
-    
-    if (code.includes('COUNT(*)')) {
-      output.push(' total_users |      latest_signup')
-      output.push('-------------+----------------------------')
-      output.push('           3 | 2024-01-15 10:30:00.000000')
-      output.push('(1 row)')
-    }
-
-    return {
-      output: output.join('\n') || 'SQL executed (simulated)',
-      exitCode: 0,
-      executionTime: 0
-    }
-  } catch (error) {
-    return {
-      output: '',
-      error: error.message,
-      exitCode: 1,
-      executionTime: 0
-    }
-  }
-}
-
-// Helper function for fibonacci calculation
-function fibonacci(n: number): number {
-  if (n <= 1) return n
-  return fibonacci(n - 1) + fibonacci(n - 2)
-}
\ No newline at end of file
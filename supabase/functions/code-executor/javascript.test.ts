@@ -0,0 +1,169 @@
+// deno test supabase/functions/code-executor/
+import {
+  assert,
+  assertEquals,
+  assertStringIncludes,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts"
+import { runJavaScript } from "./javascript.ts"
+
+Deno.test("captures stdout and stderr separately", async () => {
+  const result = await runJavaScript('console.log("out"); console.error("err")')
+
+  assertEquals(result.stdout, "out\n")
+  assertEquals(result.stderr, "err\n")
+  assertEquals(result.exitCode, 0)
+})
+
+Deno.test("reports the exit code the program chose", async () => {
+  const result = await runJavaScript("Deno.exit(3)")
+
+  assertEquals(result.exitCode, 3)
+})
+
+Deno.test("uncaught errors exit with 1 and point at the snippet", async () => {
+  const result = await runJavaScript('function f() {\n  throw new Error("boom")\n}\nf()')
+
+  assertEquals(result.exitCode, 1)
+  assertStringIncludes(result.stderr, "boom")
+  assertStringIncludes(result.stderr, "main.js:2")
+})
+
+Deno.test("kills a synchronous infinite loop at the time limit", async () => {
+  const started = performance.now()
+  const result = await runJavaScript("while (true) {}", { timeoutMs: 500 })
+
+  assert(result.timedOut)
+  assertEquals(result.exitCode, 137)
+  assert(performance.now() - started < 5000, "the loop was not killed promptly")
+})
+
+Deno.test("stops a runaway allocation at the memory limit", async () => {
+  const result = await runJavaScript("new Array(1e9).fill(0)", { memoryLimitMb: 32 })
+
+  assert(result.outOfMemory)
+  assert(!result.timedOut)
+  assertEquals(result.exitCode, 137)
+  assertStringIncludes(result.stderr, "Out of memory")
+})
+
+Deno.test("keeps running while a program is only waiting on promises", async () => {
+  const result = await runJavaScript(
+    'crypto.subtle.digest("SHA-256", new TextEncoder().encode("abc"))\n' +
+      '  .then((hash) => console.log(new Uint8Array(hash).length))\n' +
+      '  .then(() => crypto.subtle.digest("SHA-1", new Uint8Array(0)))\n' +
+      '  .then((hash) => console.log(new Uint8Array(hash)[0].toString(16)))'
+  )
+
+  assertEquals(result.stdout, "32\nda\n")
+  assertEquals(result.exitCode, 0)
+})
+
+Deno.test("caps output and kills the program that floods it", async () => {
+  const result = await runJavaScript('while (true) console.log("x".repeat(1000))', {
+    maxOutputBytes: 4096,
+  })
+
+  assert(result.truncated)
+  assertEquals(result.stdout.length, 4096)
+  assertEquals(result.exitCode, 137)
+})
+
+Deno.test("passes output on as it is written", async () => {
+  const chunks: string[] = []
+  const result = await runJavaScript(
+    'console.log("one"); await new Promise((r) => setTimeout(r, 200)); console.error("two")',
+    { onOutput: (stream, text) => chunks.push(`${stream}:${text}`) }
+  )
+
+  assertEquals(chunks, ["stdout:one\n", "stderr:two\n"])
+  assertEquals(result.stdout, "one\n")
+})
+
+Deno.test("kills the program when the signal is aborted", async () => {
+  const controller = new AbortController()
+  const started = performance.now()
+  setTimeout(() => controller.abort(), 300)
+  const result = await runJavaScript("setInterval(() => {}, 1000)", { signal: controller.signal })
+
+  assertEquals(result.exitCode, 137)
+  assert(!result.timedOut)
+  assert(performance.now() - started < 3000, "the program was not killed promptly")
+})
+
+Deno.test("gives the program its stdin, arguments and environment", async () => {
+  const result = await runJavaScript(
+    'let input = ""\n' +
+      'for await (const chunk of process.stdin) input += chunk\n' +
+      'console.log(JSON.stringify([input, Deno.args, Deno.env.get("GREETING")]))',
+    { stdin: "line 1\nline 2\n", args: ["a b", "--flag"], env: { GREETING: "hi" } }
+  )
+
+  assertEquals(result.stdout, '["line 1\\nline 2\\n",["a b","--flag"],"hi"]\n')
+  assertEquals(result.exitCode, 0)
+})
+
+Deno.test("sees only the environment variables it is given", async () => {
+  const result = await runJavaScript(
+    'console.log(Deno.env.get("PATH"), Deno.env.get("GREETING"), process.env.GREETING)',
+    { env: { GREETING: "hi" } }
+  )
+
+  assertEquals(result.stdout, "undefined hi hi\n")
+})
+
+Deno.test("reads stdin line by line with prompt()", async () => {
+  const result = await runJavaScript("console.log(prompt('a?'), prompt('b?'), prompt('c?'))", { stdin: "1\n2" })
+
+  assertEquals(result.stdout, "a? b? c? 1 2 null\n")
+})
+
+Deno.test("waits for timers before finishing", async () => {
+  const result = await runJavaScript(
+    'setTimeout(() => console.log("later"), 100)\n' +
+      'const id = setInterval(() => { console.log("tick"); clearInterval(id) }, 10)\n' +
+      'console.log("now")'
+  )
+
+  assertEquals(result.stdout, "now\ntick\nlater\n")
+  assertEquals(result.exitCode, 0)
+})
+
+Deno.test("reports process.exit and process.exitCode", async () => {
+  const exited = await runJavaScript('process.stdout.write("bye\\n"); process.exit(4); console.log("never")')
+  const exitCode = await runJavaScript("process.exitCode = 2")
+
+  assertEquals(exited.stdout, "bye\n")
+  assertEquals(exited.exitCode, 4)
+  assertEquals(exitCode.exitCode, 2)
+})
+
+Deno.test("ignores stdin the program never reads", async () => {
+  const result = await runJavaScript('console.log("done")', { stdin: "x".repeat(1024 * 1024) })
+
+  assertEquals(result.stdout, "done\n")
+  assertEquals(result.exitCode, 0)
+})
+
+for (
+  const [name, code] of [
+    ["filesystem", 'await Deno.readTextFile("/etc/hosts")'],
+    ["network", 'await fetch("https://example.com")'],
+    ["environment", 'await import("node:os").then((os) => os.userInfo())'],
+    ["subprocesses", 'new Deno.Command("/bin/sh").outputSync()'],
+    ["host globals", 'Object.getPrototypeOf(globalThis).constructor.constructor("return Deno")().readTextFileSync("/etc/hosts")'],
+  ]
+) {
+  Deno.test(`has no ${name} access`, async () => {
+    const result = await runJavaScript(code)
+
+    assertEquals(result.exitCode, 1)
+    assertStringIncludes(result.stderr, "error: Uncaught")
+  })
+}
+
+Deno.test("refuses to download remote modules", async () => {
+  const result = await runJavaScript('import "https://esm.sh/lodash"')
+
+  assertEquals(result.exitCode, 1)
+  assertStringIncludes(result.stderr, "modules are not available in the sandbox")
+})
@@ -0,0 +1,344 @@
+// Runs JavaScript in QuickJS compiled to WebAssembly. Every run gets its own
+// QuickJS runtime with a memory limit, so user code has no way to reach the
+// network, filesystem, environment or other processes, and a runaway
+// allocation fails inside the run instead of taking down the function. An
+// interrupt handler stops the program at the time limit even in the middle of
+// a synchronous loop. It needs nothing beyond WebAssembly, which the hosted
+// Edge Runtime supports, unlike Workers or subprocesses.
+//
+// QuickJS has only the language; javascriptPrelude.ts adds console, timers
+// and the bits of Deno and process a snippet expects. Imports are refused.
+// The program runs on the function's own thread, so a busy loop holds up
+// other requests to this instance until the time limit stops it.
+
+import {
+  newQuickJSWASMModuleFromVariant,
+  type QuickJSContext,
+  type QuickJSDeferredPromise,
+  type QuickJSHandle,
+  type QuickJSRuntime,
+  type QuickJSWASMModule,
+} from 'npm:quickjs-emscripten-core@0.31.0'
+// The single-file build carries its WebAssembly inline, so nothing is read
+// from disk when the function starts
+import variant from 'npm:@jitl/quickjs-singlefile-mjs-release-sync@0.31.0'
+import { PRELUDE } from './javascriptPrelude.ts'
+
+export interface SandboxOptions {
+  timeoutMs?: number
+  // Heap available to the program, in megabytes
+  memoryLimitMb?: number
+  // Per stream; anything past it is dropped and the program is stopped
+  maxOutputBytes?: number
+  // Called with output as the program writes it, in the order it arrives
+  onOutput?: (stream: 'stdout' | 'stderr', text: string) => void
+  // Stops the program when aborted, e.g. because the client went away
+  signal?: AbortSignal
+  // What process.stdin and prompt() read, then end of file
+  stdin?: string
+  // Passed after the script, as Deno.args
+  args?: string[]
+  // The only environment variables the program sees
+  env?: Record<string, string>
+}
+
+export interface SandboxResult {
+  stdout: string
+  stderr: string
+  exitCode: number
+  timedOut: boolean
+  truncated: boolean
+  outOfMemory: boolean
+}
+
+const DEFAULT_OPTIONS: Required<Omit<SandboxOptions, 'onOutput' | 'signal'>> = {
+  timeoutMs: 5000,
+  memoryLimitMb: 64,
+  maxOutputBytes: 64 * 1024,
+  stdin: '',
+  args: [],
+  env: {},
+}
+
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+// Exit code for a program we had to stop, as a shell would report SIGKILL
+const KILLED_EXIT_CODE = 137
+
+const MAX_STACK_BYTES = 1024 * 1024
+
+const DIGESTS = new Set(['SHA-1', 'SHA-256', 'SHA-384', 'SHA-512'])
+
+// Thrown through the program by process.exit() so nothing after it runs
+const EXIT_SIGNAL = 'SandboxExit'
+
+let quickJS: Promise<QuickJSWASMModule> | undefined
+
+// The module is shared; runs only share its code, not their runtimes
+const loadQuickJS = () => (quickJS ??= newQuickJSWASMModuleFromVariant(variant))
+
+interface PreludeHooks {
+  fire: QuickJSHandle
+  exitCode: QuickJSHandle
+  describe: QuickJSHandle
+}
+
+export async function runJavaScript(code: string, options: SandboxOptions = {}): Promise<SandboxResult> {
+  const { timeoutMs, memoryLimitMb, maxOutputBytes, onOutput, signal, stdin, args, env } = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  }
+  for (const name of Object.keys(env)) {
+    if (!ENV_NAME.test(name)) throw new Error(`Invalid environment variable name: ${name}`)
+  }
+
+  const module = await loadQuickJS()
+  const deadline = Date.now() + timeoutMs
+
+  const encoder = new TextEncoder()
+  const output = { stdout: '', stderr: '' }
+  const size = { stdout: 0, stderr: 0 }
+  let timedOut = false
+  let truncated = false
+  let outOfMemory = false
+  let aborted = false
+  let exitCode: number | undefined
+  let finished = false
+
+  const stopped = () => timedOut || truncated || aborted || outOfMemory
+
+  const write = (stream: 'stdout' | 'stderr', text: string) => {
+    if (finished || stopped() || exitCode !== undefined) return
+    const bytes = encoder.encode(text)
+    const room = maxOutputBytes - size[stream]
+    const kept = new TextDecoder().decode(bytes.byteLength > room ? bytes.subarray(0, room) : bytes)
+    size[stream] += Math.min(bytes.byteLength, room)
+    output[stream] += kept
+    if (kept) onOutput?.(stream, kept)
+    if (bytes.byteLength > room) truncated = true
+  }
+
+  const runtime: QuickJSRuntime = module.newRuntime({
+    memoryLimitBytes: memoryLimitMb * 1024 * 1024,
+    maxStackSizeBytes: MAX_STACK_BYTES,
+    interruptHandler: () => {
+      if (Date.now() >= deadline) timedOut = true
+      return stopped() || exitCode !== undefined
+    },
+  })
+  runtime.setModuleLoader((name) => ({
+    error: new Error(`Cannot import "${name}": modules are not available in the sandbox`),
+  }))
+  const vm: QuickJSContext = runtime.newContext()
+
+  // Timers and host promises still to come; the program ends when none are
+  // left and QuickJS has no jobs queued, the way a process's event loop drains
+  const timers = new Map<number, ReturnType<typeof setTimeout>>()
+  const pending = new Set<QuickJSDeferredPromise>()
+  let hooks: PreludeHooks | undefined
+  let main: QuickJSHandle | undefined
+
+  let resolveResult: (result: SandboxResult) => void
+  const result = new Promise<SandboxResult>((resolve) => (resolveResult = resolve))
+
+  const finish = (code: number) => {
+    if (finished) return
+    finished = true
+    clearTimeout(killTimer)
+    signal?.removeEventListener('abort', abort)
+    timers.forEach((timer) => clearTimeout(timer))
+    try {
+      pending.forEach((deferred) => deferred.dispose())
+      main?.dispose()
+      if (hooks) Object.values(hooks).forEach((handle) => handle.dispose())
+      vm.dispose()
+      runtime.dispose()
+    } catch (error) {
+      // A runtime stopped mid-allocation may not tear down cleanly; it is dropped either way
+      console.error('Failed to dispose of QuickJS runtime:', error)
+    }
+    resolveResult({ stdout: output.stdout, stderr: output.stderr, exitCode: code, timedOut, truncated, outOfMemory })
+  }
+
+  const isOutOfMemory = (error: QuickJSHandle) => {
+    try {
+      const { name, message } = vm.dump(error) ?? {}
+      return name === 'InternalError' && message === 'out of memory'
+    } catch {
+      return true
+    }
+  }
+
+  // Uncaught errors end the program with exit code 1, as they would a process
+  const uncaught = (error: QuickJSHandle, inPromise: boolean) => {
+    if (stopped() || exitCode !== undefined || finished) return
+    if (isOutOfMemory(error)) {
+      write('stderr', `error: Out of memory: the program used more than ${memoryLimitMb} MB\n`)
+      outOfMemory = true
+      return
+    }
+    let description: string
+    try {
+      description = hooks ? vm.dump(vm.unwrapResult(vm.callFunction(hooks.describe, vm.undefined, error))) : String(vm.dump(error))
+    } catch {
+      description = String(vm.dump(error))
+    }
+    write('stderr', `error: Uncaught ${inPromise ? '(in promise) ' : ''}${description}\n`)
+    exitCode = 1
+  }
+
+  // Runs whatever QuickJS has queued, then decides whether the program is done
+  const drain = () => {
+    if (finished) return
+
+    if (!stopped() && exitCode === undefined) {
+      const jobs = runtime.executePendingJobs()
+      if (jobs.error) {
+        uncaught(jobs.error, false)
+        jobs.error.dispose()
+      }
+    }
+
+    if (main && exitCode === undefined && !stopped()) {
+      const state = vm.getPromiseState(main)
+      if (state.type === 'rejected') {
+        uncaught(state.error, true)
+        state.error.dispose()
+      } else if (state.type === 'fulfilled' && !state.notAPromise) {
+        state.value.dispose()
+      }
+    }
+
+    if (stopped()) return finish(KILLED_EXIT_CODE)
+    if (exitCode !== undefined) return finish(exitCode)
+
+    if (timers.size === 0 && pending.size === 0 && !runtime.hasPendingJob()) {
+      const code = hooks ? vm.unwrapResult(vm.callFunction(hooks.exitCode, vm.undefined)).consume((h) => vm.getNumber(h)) : 0
+      finish(code)
+    }
+  }
+
+  const abort = () => {
+    aborted = true
+    drain()
+  }
+  const killTimer = setTimeout(() => {
+    timedOut = true
+    drain()
+  }, timeoutMs)
+  if (signal?.aborted) {
+    aborted = true
+    finish(KILLED_EXIT_CODE)
+    return result
+  }
+  signal?.addEventListener('abort', abort)
+
+  const input = encoder.encode(stdin)
+  let stdinOffset = 0
+  const decodeInput = (end: number) => {
+    const text = new TextDecoder().decode(input.subarray(stdinOffset, end))
+    stdinOffset = end
+    return text
+  }
+
+  const host = vm.newObject()
+  const hostFunctions: Record<string, (...args: QuickJSHandle[]) => QuickJSHandle | { error: QuickJSHandle } | void> = {
+    write: (stream, text) => write(vm.getString(stream) === 'stderr' ? 'stderr' : 'stdout', vm.getString(text)),
+    now: () => vm.newNumber(performance.now()),
+    setTimer: (id, delay) => {
+      const timerId = vm.getNumber(id)
+      clearTimeout(timers.get(timerId))
+      timers.set(timerId, setTimeout(() => {
+        timers.delete(timerId)
+        if (finished || !hooks) return
+        const fired = vm.callFunction(hooks.fire, vm.undefined, vm.newNumber(timerId))
+        if (fired.error) {
+          uncaught(fired.error, false)
+          fired.error.dispose()
+        } else {
+          fired.value.dispose()
+        }
+        drain()
+      }, vm.getNumber(delay)))
+    },
+    clearTimer: (id) => {
+      const timerId = vm.getNumber(id)
+      clearTimeout(timers.get(timerId))
+      timers.delete(timerId)
+    },
+    readLine: () => {
+      if (stdinOffset >= input.byteLength) return vm.null
+      const newline = input.indexOf(10, stdinOffset)
+      const line = decodeInput(newline === -1 ? input.byteLength : newline + 1)
+      return vm.newString(line.replace(/\r?\n$/, ''))
+    },
+    readAll: () => vm.newString(decodeInput(input.byteLength)),
+    randomUUID: () => vm.newString(crypto.randomUUID()),
+    randomBytes: (length) => vm.newArrayBuffer(crypto.getRandomValues(new Uint8Array(vm.getNumber(length))).buffer),
+    digest: (algorithm, data) => {
+      const name = vm.getString(algorithm).toUpperCase()
+      const deferred = vm.newPromise()
+      if (!DIGESTS.has(name)) {
+        vm.newError({ name: 'NotSupportedError', message: `Unrecognized algorithm name: ${name}` }).consume(deferred.reject)
+        return deferred.handle
+      }
+
+      // Counted until it settles, so the program waits for it like any other pending work
+      pending.add(deferred)
+      const settle = (handle: () => QuickJSHandle, outcome: (handle: QuickJSHandle) => void) => {
+        if (finished) return
+        pending.delete(deferred)
+        handle().consume(outcome)
+        deferred.dispose()
+        drain()
+      }
+      const bytes = vm.getArrayBuffer(data).consume((view) => view.value.slice())
+      crypto.subtle.digest(name, bytes).then(
+        (digest) => settle(() => vm.newArrayBuffer(digest), deferred.resolve),
+        (error) => settle(() => vm.newError(String(error)), deferred.reject)
+      )
+      return deferred.handle
+    },
+    exit: (code) => {
+      exitCode = vm.getNumber(code)
+      return { error: vm.newError({ name: EXIT_SIGNAL, message: 'process.exit()' }) }
+    },
+  }
+  for (const [name, fn] of Object.entries(hostFunctions)) {
+    vm.newFunction(name, fn).consume((handle) => vm.setProp(host, name, handle))
+  }
+  vm.newArray().consume((array) => {
+    args.forEach((arg, index) => vm.newString(arg).consume((handle) => vm.setProp(array, index, handle)))
+    vm.setProp(host, 'args', array)
+  })
+  vm.newObject().consume((object) => {
+    Object.entries(env).forEach(([name, value]) => vm.newString(value).consume((handle) => vm.setProp(object, name, handle)))
+    vm.setProp(host, 'env', object)
+  })
+
+  try {
+    const installed = vm.unwrapResult(
+      vm.unwrapResult(vm.evalCode(PRELUDE, 'prelude.js')).consume((prelude) => vm.callFunction(prelude, vm.undefined, host))
+    )
+    hooks = {
+      fire: vm.getProp(installed, 'fire'),
+      exitCode: vm.getProp(installed, 'exitCode'),
+      describe: vm.getProp(installed, 'describe'),
+    }
+    installed.dispose()
+  } finally {
+    host.dispose()
+  }
+
+  // As a module, so top-level await works; errors show against main.js
+  const evaluated = vm.evalCode(code, 'main.js', { type: 'module' })
+  if (evaluated.error) {
+    uncaught(evaluated.error, false)
+    evaluated.error.dispose()
+  } else {
+    main = evaluated.value
+  }
+  drain()
+
+  return result
+}
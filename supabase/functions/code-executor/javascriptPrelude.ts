@@ -0,0 +1,278 @@
+// Runs inside the QuickJS context before the program, with the functions
+// javascript.ts provides as `host`. QuickJS only has the language itself, so
+// this adds the parts of Deno's and Node's globals a snippet is likely to use:
+// console, timers, Deno and process (arguments, environment, stdin, exit),
+// prompt(), TextEncoder and TextDecoder, and crypto. Anything else, such as
+// fetch or the filesystem, is simply not defined.
+//
+// Kept as source text because it is evaluated by QuickJS, not by Deno.
+
+export const PRELUDE = String.raw`(host) => {
+  'use strict'
+
+  const define = (target, values) => {
+    for (const key of Object.keys(values)) {
+      Object.defineProperty(target, key, { value: values[key], writable: true, configurable: true })
+    }
+  }
+
+  // console
+
+  const quote = (text) => JSON.stringify(text)
+
+  const inspect = (value, depth, seen) => {
+    if (typeof value === 'string') return depth === 0 ? value : quote(value)
+    if (typeof value === 'bigint') return value + 'n'
+    if (typeof value === 'symbol') return value.toString()
+    if (typeof value === 'function') return '[Function: ' + (value.name || '(anonymous)') + ']'
+    if (value === null || typeof value !== 'object') return String(value)
+    if (value instanceof Error) return errorText(value)
+    if (value instanceof Date) return isNaN(value) ? 'Invalid Date' : value.toISOString()
+    if (value instanceof RegExp) return String(value)
+    if (seen.includes(value)) return '[Circular *]'
+    if (depth > 2) return Array.isArray(value) ? '[Array]' : '[Object]'
+
+    const nested = (item) => inspect(item, depth + 1, [...seen, value])
+    const list = (open, items, close) => (items.length === 0 ? open + close : open + ' ' + items.join(', ') + ' ' + close)
+
+    if (Array.isArray(value)) return list('[', value.map(nested), ']')
+    if (ArrayBuffer.isView(value)) {
+      return value.constructor.name + '(' + value.length + ') ' + list('[', Array.from(value, nested), ']')
+    }
+    if (value instanceof ArrayBuffer) return 'ArrayBuffer { byteLength: ' + value.byteLength + ' }'
+    if (value instanceof Map) {
+      return 'Map(' + value.size + ') ' + list('{', Array.from(value, ([k, v]) => nested(k) + ' => ' + nested(v)), '}')
+    }
+    if (value instanceof Set) return 'Set(' + value.size + ') ' + list('{', Array.from(value, nested), '}')
+    if (value instanceof Promise) return 'Promise { <unknown> }'
+
+    const key = (name) => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name))
+    const prefix = value.constructor && value.constructor !== Object ? value.constructor.name + ' ' : ''
+    return prefix + list('{', Object.keys(value).map((name) => key(name) + ': ' + nested(value[name])), '}')
+  }
+
+  const format = (args) => {
+    let rest = args
+    let text = ''
+    if (typeof args[0] === 'string' && args[0].includes('%')) {
+      rest = args.slice(1)
+      text = args[0].replace(/%([sdifoOjc%])/g, (match, type) => {
+        if (type === '%') return '%'
+        if (rest.length === 0) return match
+        const arg = rest.shift()
+        if (type === 's') return typeof arg === 'string' ? arg : inspect(arg, 1, [])
+        if (type === 'd' || type === 'i') return String(type === 'i' ? parseInt(arg) : Number(arg))
+        if (type === 'f') return String(parseFloat(arg))
+        if (type === 'c') return ''
+        return inspect(arg, 1, [])
+      })
+      if (rest.length === 0) return text
+      text += ' '
+    }
+    return text + rest.map((arg) => inspect(arg, 0, [])).join(' ')
+  }
+
+  const errorText = (error) => {
+    const heading = (error.name || 'Error') + (error.message ? ': ' + error.message : '')
+    return error.stack ? heading + '\n' + error.stack.replace(/\n$/, '') : heading
+  }
+
+  const counts = new Map()
+  const timings = new Map()
+  const print = (stream) => (...args) => host.write(stream, format(args) + '\n')
+
+  define(globalThis, {
+    console: {
+      log: print('stdout'),
+      info: print('stdout'),
+      debug: print('stdout'),
+      error: print('stderr'),
+      warn: print('stderr'),
+      trace: (...args) => host.write('stderr', 'Trace' + (args.length ? ': ' + format(args) : '') + '\n'),
+      assert: (condition, ...args) => {
+        if (!condition) host.write('stderr', 'Assertion failed' + (args.length ? ': ' + format(args) : '') + '\n')
+      },
+      count: (label = 'default') => {
+        counts.set(label, (counts.get(label) || 0) + 1)
+        host.write('stdout', label + ': ' + counts.get(label) + '\n')
+      },
+      time: (label = 'default') => timings.set(label, host.now()),
+      timeEnd: (label = 'default') => {
+        if (!timings.has(label)) return
+        host.write('stdout', label + ': ' + (host.now() - timings.get(label)).toFixed(3) + 'ms\n')
+        timings.delete(label)
+      },
+    },
+  })
+
+  // Timers. The host keeps the real ones and calls fire() when one is due.
+
+  const timers = new Map()
+  let nextTimer = 1
+
+  const startTimer = (repeat) => (callback, delay, ...args) => {
+    const id = nextTimer++
+    const ms = Math.max(0, Number(delay) || 0)
+    timers.set(id, { callback, args, repeat, ms })
+    host.setTimer(id, ms)
+    return id
+  }
+  const stopTimer = (id) => {
+    if (!timers.delete(id)) return
+    host.clearTimer(id)
+  }
+
+  define(globalThis, {
+    setTimeout: startTimer(false),
+    setInterval: startTimer(true),
+    clearTimeout: stopTimer,
+    clearInterval: stopTimer,
+    queueMicrotask: (callback) => void Promise.resolve().then(callback),
+    performance: { now: () => host.now() },
+  })
+
+  // Text
+
+  class TextEncoder {
+    get encoding() {
+      return 'utf-8'
+    }
+    encode(text = '') {
+      const binary = unescape(encodeURIComponent(String(text)))
+      return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+    }
+  }
+
+  class TextDecoder {
+    get encoding() {
+      return 'utf-8'
+    }
+    decode(input) {
+      if (input === undefined) return ''
+      const bytes = input instanceof ArrayBuffer ? new Uint8Array(input) : new Uint8Array(input.buffer, input.byteOffset, input.byteLength)
+      let binary = ''
+      for (let i = 0; i < bytes.length; i += 8192) binary += String.fromCharCode(...bytes.subarray(i, i + 8192))
+      return decodeURIComponent(escape(binary))
+    }
+  }
+
+  define(globalThis, { TextEncoder, TextDecoder })
+
+  // crypto; digest resolves on the host, so it keeps the program running
+
+  const toBuffer = (data) =>
+    data instanceof ArrayBuffer ? data : data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+
+  define(globalThis, {
+    crypto: {
+      randomUUID: () => host.randomUUID(),
+      getRandomValues: (array) => {
+        new Uint8Array(array.buffer, array.byteOffset, array.byteLength).set(new Uint8Array(host.randomBytes(array.byteLength)))
+        return array
+      },
+      subtle: {
+        digest: (algorithm, data) => host.digest(typeof algorithm === 'string' ? algorithm : algorithm.name, toBuffer(data)),
+      },
+    },
+  })
+
+  // Stdin, arguments, environment and exit
+
+  const env = new Map(Object.entries(host.env))
+  const exit = (code) => host.exit(code === undefined ? exitCode : Number(code) || 0)
+  let exitCode = 0
+  const exitCodeProperty = {
+    get: () => exitCode,
+    set: (code) => {
+      exitCode = Number(code) || 0
+    },
+    configurable: true,
+  }
+
+  const stdinListeners = { data: [], end: [] }
+  let stdinFlowing = false
+  // Node delivers stdin asynchronously once a listener is attached
+  const flowStdin = () => {
+    if (stdinFlowing) return
+    stdinFlowing = true
+    setTimeout(() => {
+      const text = host.readAll()
+      if (text) stdinListeners.data.forEach((listener) => listener(text))
+      stdinListeners.end.forEach((listener) => listener())
+    }, 0)
+  }
+  const stdin = {
+    setEncoding: () => stdin,
+    resume: () => stdin,
+    on: (event, listener) => {
+      if (stdinListeners[event]) {
+        stdinListeners[event].push(listener)
+        flowStdin()
+      }
+      return stdin
+    },
+    once: (event, listener) => stdin.on(event, listener),
+    read: () => host.readAll() || null,
+    [Symbol.asyncIterator]: async function* () {
+      const text = host.readAll()
+      if (text) yield text
+    },
+  }
+
+  const stream = (name) => ({
+    write: (chunk) => {
+      host.write(name, typeof chunk === 'string' ? chunk : new TextDecoder().decode(chunk))
+      return true
+    },
+    isTTY: false,
+  })
+
+  const process = {
+    argv: ['deno', 'main.js', ...host.args],
+    env: Object.fromEntries(env),
+    platform: 'linux',
+    stdin,
+    stdout: stream('stdout'),
+    stderr: stream('stderr'),
+    exit,
+    nextTick: (callback, ...args) => void Promise.resolve().then(() => callback(...args)),
+    hrtime: { bigint: () => BigInt(Math.round(host.now() * 1e6)) },
+  }
+  Object.defineProperty(process, 'exitCode', exitCodeProperty)
+
+  const Deno = {
+    args: Object.freeze([...host.args]),
+    env: {
+      get: (name) => env.get(name),
+      has: (name) => env.has(name),
+      set: (name, value) => void env.set(name, String(value)),
+      delete: (name) => void env.delete(name),
+      toObject: () => Object.fromEntries(env),
+    },
+    exit,
+    inspect: (value) => inspect(value, 1, []),
+  }
+  Object.defineProperty(Deno, 'exitCode', exitCodeProperty)
+
+  define(globalThis, {
+    process,
+    Deno,
+    prompt: (message = 'Prompt') => {
+      host.write('stdout', message + ' ')
+      return host.readLine()
+    },
+  })
+
+  // What the host calls back into
+  return {
+    fire: (id) => {
+      const timer = timers.get(id)
+      if (!timer) return
+      if (timer.repeat) host.setTimer(id, timer.ms)
+      else timers.delete(id)
+      timer.callback(...timer.args)
+    },
+    exitCode: () => exitCode,
+    describe: (error) => (error instanceof Error ? errorText(error) : inspect(error, 1, [])),
+  }
+}`
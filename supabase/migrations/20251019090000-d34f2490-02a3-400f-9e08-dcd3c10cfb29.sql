@@ -0,0 +1,12 @@
+-- The original UNIQUE(item_id, is_current) constraint only allows a single
+-- non-current version per item, so the second edit of any note or command
+-- failed inside the versioning trigger. Only the current flag needs to be unique.
+ALTER TABLE public.versions DROP CONSTRAINT IF EXISTS versions_item_id_is_current_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_versions_one_current
+ON public.versions(item_id)
+WHERE is_current;
+
+-- Speed up the history lookup used by the version browser
+CREATE INDEX IF NOT EXISTS idx_versions_item_version
+ON public.versions(item_id, version_number DESC);
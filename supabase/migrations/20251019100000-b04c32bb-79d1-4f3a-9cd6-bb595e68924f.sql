@@ -0,0 +1,83 @@
+-- Ranked full-text search across commands and notes.
+-- The WHERE clauses repeat the exact expressions of the existing GIN indexes
+-- (idx_commands_title, idx_commands_command, idx_notes_title, idx_notes_content)
+-- so the planner can use them.
+CREATE OR REPLACE FUNCTION public.search_items(
+    search_query TEXT,
+    page_size INTEGER DEFAULT 20,
+    page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    item_id UUID,
+    item_type TEXT,
+    title TEXT,
+    title_highlight TEXT,
+    snippet TEXT,
+    tags TEXT[],
+    rank REAL,
+    total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path TO ''
+AS $function$
+DECLARE
+    ts_query tsquery;
+BEGIN
+    -- Every word becomes a prefix match, so "kube depl" finds "kubectl deployment"
+    SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+    INTO ts_query
+    FROM regexp_split_to_table(lower(coalesce(search_query, '')), '[^[:alnum:]_]+') AS word
+    WHERE word <> '';
+
+    IF ts_query IS NULL OR numnode(ts_query) = 0 THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    WITH matches AS (
+        SELECT
+            c.id,
+            'command'::TEXT AS kind,
+            c.title AS item_title,
+            c.command AS body,
+            c.tags AS item_tags,
+            -- A hit in the title counts for more than one in the body
+            (ts_rank(to_tsvector('english', c.title), ts_query) * 2
+                + ts_rank(to_tsvector('english', c.command), ts_query))::REAL AS score
+        FROM public.commands c
+        WHERE c.user_id = auth.uid()
+          AND (to_tsvector('english', c.title) @@ ts_query
+               OR to_tsvector('english', c.command) @@ ts_query)
+        UNION ALL
+        SELECT
+            n.id,
+            'note'::TEXT,
+            n.title,
+            n.content,
+            n.tags,
+            (ts_rank(to_tsvector('english', n.title), ts_query) * 2
+                + ts_rank(to_tsvector('english', n.content), ts_query))::REAL
+        FROM public.notes n
+        WHERE n.user_id = auth.uid()
+          AND (to_tsvector('english', n.title) @@ ts_query
+               OR to_tsvector('english', n.content) @@ ts_query)
+    )
+    SELECT
+        m.id,
+        m.kind,
+        m.item_title,
+        ts_headline('english', m.item_title, ts_query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+        ts_headline('english', m.body, ts_query, 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'),
+        m.item_tags,
+        m.score,
+        count(*) OVER ()
+    FROM matches m
+    ORDER BY m.score DESC, m.item_title
+    LIMIT greatest(least(page_size, 100), 1)
+    OFFSET greatest(page_offset, 0);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.search_items(TEXT, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,5 @@
+-- Risk findings from the client-side command analyzer, stored with the
+-- command so they can be shown without re-analyzing every card.
+-- Each element: { rule, severity, start, end, match, message }
+ALTER TABLE public.commands
+    ADD COLUMN risk_findings JSONB NOT NULL DEFAULT '[]'::jsonb;
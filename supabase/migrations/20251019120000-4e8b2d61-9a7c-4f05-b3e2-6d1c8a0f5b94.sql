@@ -0,0 +1,5 @@
+-- Note bodies are stored verbatim and escaped when rendered. The client no
+-- longer truncates them, so the size limit lives here instead.
+-- Keep in sync with NOTE_CONTENT_MAX_LENGTH in src/lib/validation.ts.
+ALTER TABLE public.notes
+    ADD CONSTRAINT notes_content_length CHECK (char_length(content) <= 100000);
@@ -0,0 +1,44 @@
+-- Replace every outgoing link of a note or command in one transaction, so an
+-- editor save is a single round trip and never leaves a half-applied set.
+-- p_links is a JSON array of { "to_id": uuid, "to_type": "note" | "command" }.
+CREATE OR REPLACE FUNCTION public.replace_item_links(
+    p_from_id UUID,
+    p_from_type TEXT,
+    p_links JSONB
+)
+RETURNS SETOF public.note_links
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO ''
+AS $function$
+BEGIN
+    IF p_from_type NOT IN ('note', 'command') THEN
+        RAISE EXCEPTION 'Invalid link source type: %', p_from_type;
+    END IF;
+
+    DELETE FROM public.note_links l
+    WHERE l.user_id = auth.uid()
+      AND l.from_id = p_from_id
+      AND l.from_type = p_from_type
+      AND NOT EXISTS (
+          SELECT 1
+          FROM jsonb_to_recordset(coalesce(p_links, '[]'::jsonb)) AS t(to_id UUID, to_type TEXT)
+          WHERE t.to_id = l.to_id AND t.to_type = l.to_type
+      );
+
+    INSERT INTO public.note_links (user_id, from_id, from_type, to_id, to_type)
+    SELECT DISTINCT auth.uid(), p_from_id, p_from_type, t.to_id, t.to_type
+    FROM jsonb_to_recordset(coalesce(p_links, '[]'::jsonb)) AS t(to_id UUID, to_type TEXT)
+    WHERE t.to_type IN ('note', 'command')
+    ON CONFLICT (from_id, to_id, from_type, to_type) DO NOTHING;
+
+    RETURN QUERY
+    SELECT *
+    FROM public.note_links l
+    WHERE l.user_id = auth.uid()
+      AND l.from_id = p_from_id
+      AND l.from_type = p_from_type;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.replace_item_links(UUID, TEXT, JSONB) TO authenticated;
@@ -0,0 +1,61 @@
+-- Typed link relations. Every existing link becomes 'see-also', the closest
+-- match for the untyped edges we had before.
+ALTER TABLE public.note_links
+    ADD COLUMN relation TEXT NOT NULL DEFAULT 'see-also'
+    CONSTRAINT note_links_relation_check
+        CHECK (relation IN ('explains', 'depends-on', 'replaces', 'see-also', 'example-of'));
+
+-- Changing a link's relation is an update of the existing row
+CREATE POLICY "Users can update their own links"
+ON public.note_links
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Deprecation lookups go from the replaced command to whatever replaces it
+CREATE INDEX note_links_to_relation_idx ON public.note_links (to_id, relation);
+
+-- Same as before, but each element of p_links may carry a "relation"
+-- (defaulting to 'see-also'), and a changed relation updates the row.
+CREATE OR REPLACE FUNCTION public.replace_item_links(
+    p_from_id UUID,
+    p_from_type TEXT,
+    p_links JSONB
+)
+RETURNS SETOF public.note_links
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO ''
+AS $function$
+BEGIN
+    IF p_from_type NOT IN ('note', 'command') THEN
+        RAISE EXCEPTION 'Invalid link source type: %', p_from_type;
+    END IF;
+
+    DELETE FROM public.note_links l
+    WHERE l.user_id = auth.uid()
+      AND l.from_id = p_from_id
+      AND l.from_type = p_from_type
+      AND NOT EXISTS (
+          SELECT 1
+          FROM jsonb_to_recordset(coalesce(p_links, '[]'::jsonb)) AS t(to_id UUID, to_type TEXT)
+          WHERE t.to_id = l.to_id AND t.to_type = l.to_type
+      );
+
+    INSERT INTO public.note_links (user_id, from_id, from_type, to_id, to_type, relation)
+    SELECT DISTINCT ON (t.to_id, t.to_type)
+        auth.uid(), p_from_id, p_from_type, t.to_id, t.to_type, coalesce(t.relation, 'see-also')
+    FROM jsonb_to_recordset(coalesce(p_links, '[]'::jsonb)) AS t(to_id UUID, to_type TEXT, relation TEXT)
+    WHERE t.to_type IN ('note', 'command')
+    ON CONFLICT (from_id, to_id, from_type, to_type)
+        DO UPDATE SET relation = EXCLUDED.relation
+        WHERE public.note_links.relation IS DISTINCT FROM EXCLUDED.relation;
+
+    RETURN QUERY
+    SELECT *
+    FROM public.note_links l
+    WHERE l.user_id = auth.uid()
+      AND l.from_id = p_from_id
+      AND l.from_type = p_from_type;
+END;
+$function$;
@@ -0,0 +1,39 @@
+-- One row per time a command is copied or run. Rows are written with
+-- client-generated ids so events queued offline can be replayed safely.
+CREATE TABLE public.command_usage_events (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL,
+    command_id UUID NOT NULL REFERENCES public.commands(id) ON DELETE CASCADE,
+    event TEXT NOT NULL CHECK (event IN ('copy', 'run')),
+    used_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.command_usage_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own usage events"
+ON public.command_usage_events
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own usage events"
+ON public.command_usage_events
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_command_usage_events_command ON public.command_usage_events(user_id, command_id);
+
+-- Per-command totals for sorting and the "used N times" indicator.
+-- security_invoker makes the view apply the table's RLS for the caller.
+CREATE VIEW public.command_usage
+WITH (security_invoker = true)
+AS
+SELECT
+    e.command_id,
+    e.user_id,
+    count(*) FILTER (WHERE e.event = 'copy')::INTEGER AS copy_count,
+    count(*) FILTER (WHERE e.event = 'run')::INTEGER AS run_count,
+    max(e.used_at) AS last_used_at
+FROM public.command_usage_events e
+GROUP BY e.command_id, e.user_id;
+
+GRANT SELECT ON public.command_usage TO authenticated;
@@ -0,0 +1,108 @@
+-- Nested collections ("Kubernetes > Debugging") that hold commands and notes.
+-- Deleting a collection deletes its subcollections; the items filed in them
+-- are kept and become unfiled.
+CREATE TABLE public.collections (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL,
+    parent_id UUID REFERENCES public.collections(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own collections"
+ON public.collections
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own collections"
+ON public.collections
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own collections"
+ON public.collections
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own collections"
+ON public.collections
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_collections_user_parent ON public.collections(user_id, parent_id);
+
+CREATE TRIGGER update_collections_updated_at
+    BEFORE UPDATE ON public.collections
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.commands
+    ADD COLUMN collection_id UUID REFERENCES public.collections(id) ON DELETE SET NULL;
+
+ALTER TABLE public.notes
+    ADD COLUMN collection_id UUID REFERENCES public.collections(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_commands_collection ON public.commands(collection_id);
+CREATE INDEX idx_notes_collection ON public.notes(collection_id);
+
+-- Foreign keys are checked without RLS, so make sure a parent or target
+-- collection belongs to the same user, and that a collection is never moved
+-- into itself or one of its own subcollections.
+CREATE OR REPLACE FUNCTION public.check_collection_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO ''
+AS $function$
+DECLARE
+    target UUID;
+BEGIN
+    IF TG_TABLE_NAME = 'collections' THEN
+        target := NEW.parent_id;
+    ELSE
+        target := NEW.collection_id;
+    END IF;
+
+    IF target IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.collections WHERE id = target AND user_id = NEW.user_id
+    ) THEN
+        RAISE EXCEPTION 'Collection % not found', target USING ERRCODE = 'foreign_key_violation';
+    END IF;
+
+    IF TG_TABLE_NAME = 'collections' AND TG_OP = 'UPDATE' AND EXISTS (
+        WITH RECURSIVE ancestors AS (
+            SELECT id, parent_id FROM public.collections WHERE id = target
+            UNION
+            SELECT c.id, c.parent_id
+            FROM public.collections c
+            JOIN ancestors a ON c.id = a.parent_id
+        )
+        SELECT 1 FROM ancestors WHERE id = NEW.id
+    ) THEN
+        RAISE EXCEPTION 'A collection cannot be moved into itself' USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_collections_parent
+    BEFORE INSERT OR UPDATE OF parent_id ON public.collections
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_collection_owner();
+
+CREATE TRIGGER check_commands_collection
+    BEFORE INSERT OR UPDATE OF collection_id ON public.commands
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_collection_owner();
+
+CREATE TRIGGER check_notes_collection
+    BEFORE INSERT OR UPDATE OF collection_id ON public.notes
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_collection_owner();
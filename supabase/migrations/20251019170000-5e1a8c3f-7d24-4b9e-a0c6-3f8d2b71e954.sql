@@ -0,0 +1,13 @@
+-- Stdin, arguments and environment variables the code runner passes to a
+-- command, so scripts that read input can be run as they were tested.
+-- Shape: { stdin: string, args: string[], env: { NAME: value } }; NULL when
+-- the command has none. Not part of command_versions, which track content.
+ALTER TABLE public.commands
+    ADD COLUMN run_inputs JSONB
+    CONSTRAINT commands_run_inputs_shape CHECK (
+        run_inputs IS NULL
+        OR (
+            jsonb_typeof(run_inputs) = 'object'
+            AND octet_length(run_inputs::text) <= 200000
+        )
+    );
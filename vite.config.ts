@@ -17,6 +17,16 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // just-bash's browser build still imports zlib for its gzip commands
+      "node:zlib": path.resolve(__dirname, "./src/lib/browserZlib.ts"),
     },
   },
+  // Pyodide and PGlite locate their WebAssembly files relative to themselves,
+  // which breaks once they are pre-bundled; their workers also need ES modules
+  optimizeDeps: {
+    exclude: ["pyodide", "@electric-sql/pglite"],
+  },
+  worker: {
+    format: "es",
+  },
 }));